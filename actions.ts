@@ -0,0 +1,101 @@
+import { RuleAction, RuleActionType, SortingRule } from './types';
+import { normalizeTag } from './conditions';
+
+export const RULE_ACTION_TYPES: RuleActionType[] = [
+	'move',
+	'copy',
+	'addTag',
+	'removeTag',
+	'setProperty',
+	'removeProperty',
+	'trash'
+];
+
+/**
+ * Past-tense labels for sort summaries, e.g. "Tags added: 3"
+ */
+export const ACTION_RESULT_LABELS: Record<RuleActionType, string> = {
+	move: 'Moved',
+	copy: 'Copied',
+	addTag: 'Tags added',
+	removeTag: 'Tags removed',
+	setProperty: 'Properties set',
+	removeProperty: 'Properties removed',
+	trash: 'Trashed'
+};
+
+export function createAction(type: RuleActionType): RuleAction {
+	switch (type) {
+		case 'move':
+			return { type: 'move' };
+		case 'copy':
+			return { type: 'copy', destinationFolder: '' };
+		case 'addTag':
+		case 'removeTag':
+			return { type, tag: '' };
+		case 'setProperty':
+			return { type: 'setProperty', propertyName: '', propertyValue: '' };
+		case 'removeProperty':
+			return { type: 'removeProperty', propertyName: '' };
+		case 'trash':
+			return { type: 'trash' };
+	}
+}
+
+/**
+ * The actions a rule runs. Rules saved before actions existed only move files.
+ */
+export function getRuleActions(rule: SortingRule): RuleAction[] {
+	return rule.actions ?? [createAction('move')];
+}
+
+export function createActionCounts(): Record<RuleActionType, number> {
+	const counts = {} as Record<RuleActionType, number>;
+	for (const type of RULE_ACTION_TYPES) {
+		counts[type] = 0;
+	}
+	return counts;
+}
+
+/**
+ * Build a short human-readable summary of an action
+ */
+export function describeAction(action: RuleAction, rule: SortingRule): string {
+	switch (action.type) {
+		case 'move':
+			return rule.destinationType === 'hub'
+				? 'move to hub note folder'
+				: `move to ${rule.destinationFolder || '(not set)'}`;
+		case 'copy':
+			return `copy to ${action.destinationFolder || '(not set)'}`;
+		case 'addTag':
+			return `add #${normalizeTag(action.tag)}`;
+		case 'removeTag':
+			return `remove #${normalizeTag(action.tag)}`;
+		case 'setProperty':
+			return `set ${action.propertyName}: ${action.propertyValue}`;
+		case 'removeProperty':
+			return `remove ${action.propertyName}`;
+		case 'trash':
+			return 'trash';
+	}
+}
+
+/**
+ * Check an action for missing values. Returns an error message, or null when valid.
+ */
+export function validateAction(action: RuleAction): string | null {
+	switch (action.type) {
+		case 'move':
+		case 'trash':
+			return null;
+		case 'copy':
+			return action.destinationFolder.trim() ? null : 'Please enter a folder to copy to';
+		case 'addTag':
+		case 'removeTag':
+			return normalizeTag(action.tag) ? null : 'Please enter a tag';
+		case 'setProperty':
+		case 'removeProperty':
+			return action.propertyName.trim() ? null : 'Please enter a property name';
+	}
+}
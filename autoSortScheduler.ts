@@ -0,0 +1,150 @@
+import { App, TFile } from 'obsidian';
+
+/**
+ * When a changed file is ready to be auto-sorted
+ */
+export interface AutoSortOptions {
+	// Milliseconds without further changes before a file is sorted
+	quietPeriod: number;
+	// Hold the note while it is open in the active editor
+	waitUntilInactive: boolean;
+	// Leave "Untitled" notes and empty files alone until they change again
+	skipUntitled: boolean;
+	skipEmpty: boolean;
+	// Hold notes until this frontmatter property is present
+	requiredProperty: string;
+}
+
+const DEFAULT_AUTO_SORT_OPTIONS: AutoSortOptions = {
+	quietPeriod: 2000,
+	waitUntilInactive: false,
+	skipUntitled: true,
+	skipEmpty: true,
+	requiredProperty: ''
+};
+
+// Names Obsidian gives new notes, canvases and bases, e.g. "Untitled 2"
+const UNTITLED_NAME = /^Untitled( \d+)?$/;
+
+/**
+ * Waits for a file to settle before auto-sorting it. Every change restarts
+ * the file's quiet period, so a note being typed in or filled by a template
+ * is only sorted once the changes stop.
+ */
+export class AutoSortScheduler {
+	private app: App;
+	private sortFile: (file: TFile) => Promise<void>;
+	private options: AutoSortOptions = DEFAULT_AUTO_SORT_OPTIONS;
+	private verboseLogging = false;
+	// Keyed by file rather than path so a pending sort follows renames
+	private timers = new Map<TFile, number>();
+	// Files that settled while open in the active editor
+	private waitingForBlur = new Set<TFile>();
+
+	constructor(app: App, sortFile: (file: TFile) => Promise<void>) {
+		this.app = app;
+		this.sortFile = sortFile;
+	}
+
+	setOptions(options: AutoSortOptions): void {
+		this.options = options;
+	}
+
+	setVerboseLogging(enabled: boolean): void {
+		this.verboseLogging = enabled;
+	}
+
+	/**
+	 * Sort the file once it has not changed for the quiet period
+	 */
+	schedule(file: TFile): void {
+		const timer = this.timers.get(file);
+		if (timer !== undefined) {
+			window.clearTimeout(timer);
+		}
+		this.waitingForBlur.delete(file);
+
+		this.timers.set(file, window.setTimeout(() => {
+			this.timers.delete(file);
+			this.checkFile(file);
+		}, this.options.quietPeriod));
+	}
+
+	/**
+	 * Check the files that were held because they were open, after the active file changes
+	 */
+	onActiveFileChange(): void {
+		for (const file of Array.from(this.waitingForBlur)) {
+			this.waitingForBlur.delete(file);
+			this.checkFile(file);
+		}
+	}
+
+	/**
+	 * Drop every pending sort
+	 */
+	cancelAll(): void {
+		for (const timer of this.timers.values()) {
+			window.clearTimeout(timer);
+		}
+		this.timers.clear();
+		this.waitingForBlur.clear();
+	}
+
+	private async checkFile(file: TFile): Promise<void> {
+		// Deleted while waiting
+		if (this.app.vault.getAbstractFileByPath(file.path) !== file) {
+			return;
+		}
+
+		const reason = await this.getHoldReason(file);
+		if (reason) {
+			if (this.verboseLogging) {
+				console.log(`Not auto-sorting ${file.path} yet: ${reason}`);
+			}
+			return;
+		}
+
+		await this.sortFile(file);
+	}
+
+	/**
+	 * Why the file is not ready to be sorted, or null when it is
+	 */
+	private async getHoldReason(file: TFile): Promise<string | null> {
+		const { options } = this;
+
+		if (options.waitUntilInactive && this.app.workspace.getActiveFile() === file) {
+			this.waitingForBlur.add(file);
+			return 'it is open in the active editor';
+		}
+
+		if (options.skipUntitled && UNTITLED_NAME.test(file.basename)) {
+			return 'it is untitled';
+		}
+
+		if (options.skipEmpty && await this.isEmpty(file)) {
+			return 'it is empty';
+		}
+
+		const property = options.requiredProperty.trim();
+		if (property && file.extension === 'md') {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || !(property in frontmatter)) {
+				return `it has no "${property}" property`;
+			}
+		}
+
+		return null;
+	}
+
+	private async isEmpty(file: TFile): Promise<boolean> {
+		if (file.stat.size === 0) {
+			return true;
+		}
+		if (file.extension !== 'md') {
+			return false;
+		}
+		return (await this.app.vault.cachedRead(file)).trim() === '';
+	}
+}
@@ -0,0 +1,222 @@
+import { moment } from 'obsidian';
+
+type Moment = ReturnType<typeof moment>;
+
+/**
+ * Property types as reported by Obsidian's property type metadata,
+ * reduced to the kinds that matter for comparisons
+ */
+export type PropertyValueType = 'text' | 'number' | 'date' | 'checkbox' | 'list';
+
+const DATE_FORMATS = [
+	'YYYY-MM-DD',
+	'YYYY-MM-DDTHH:mm',
+	'YYYY-MM-DDTHH:mm:ss',
+	'YYYY-MM-DD HH:mm',
+	'YYYY-MM-DD HH:mm:ss',
+	moment.ISO_8601
+];
+
+const DURATION_PATTERN = /^([+-]?)\s*(\d+)\s*(d|days?|w|weeks?|m|months?|y|years?)$/i;
+
+/**
+ * Check whether a frontmatter value counts as empty
+ */
+export function isEmptyValue(value: unknown): boolean {
+	if (value === undefined || value === null) {
+		return true;
+	}
+	if (typeof value === 'string') {
+		return value.trim() === '';
+	}
+	if (Array.isArray(value)) {
+		return value.length === 0;
+	}
+	return false;
+}
+
+/**
+ * Convert a frontmatter value to a number, or null if it is not numeric
+ */
+export function toNumber(value: unknown): number | null {
+	if (typeof value === 'number') {
+		return isNaN(value) ? null : value;
+	}
+	if (typeof value === 'string' && value.trim() !== '') {
+		const parsed = Number(value.trim());
+		return isNaN(parsed) ? null : parsed;
+	}
+	return null;
+}
+
+/**
+ * Convert a frontmatter value to a boolean, or null if it is not boolean-like
+ */
+export function toBoolean(value: unknown): boolean | null {
+	if (typeof value === 'boolean') {
+		return value;
+	}
+	if (typeof value === 'string') {
+		const normalized = value.trim().toLowerCase();
+		if (normalized === 'true' || normalized === 'yes') {
+			return true;
+		}
+		if (normalized === 'false' || normalized === 'no') {
+			return false;
+		}
+	}
+	return null;
+}
+
+/**
+ * Convert a frontmatter value to a date, or null if it is not a valid date
+ */
+export function toDate(value: unknown): Moment | null {
+	if (value instanceof Date) {
+		return moment(value);
+	}
+	if (typeof value !== 'string' || value.trim() === '') {
+		return null;
+	}
+
+	const parsed = moment(value.trim(), DATE_FORMATS, true);
+	return parsed.isValid() ? parsed : null;
+}
+
+/**
+ * Infer the type of a frontmatter value from the value itself
+ */
+export function inferValueType(value: unknown): PropertyValueType {
+	if (typeof value === 'number') {
+		return 'number';
+	}
+	if (typeof value === 'boolean') {
+		return 'checkbox';
+	}
+	if (Array.isArray(value)) {
+		return 'list';
+	}
+	if (toNumber(value) !== null) {
+		return 'number';
+	}
+	if (toDate(value) !== null) {
+		return 'date';
+	}
+	return 'text';
+}
+
+/**
+ * Parse a duration such as "30 days", "2w" or "-1 month".
+ * Returns null if the text is not a duration.
+ */
+export function parseDuration(text: string): { amount: number; unit: 'days' | 'weeks' | 'months' | 'years' } | null {
+	const match = DURATION_PATTERN.exec(text.trim());
+	if (!match) {
+		return null;
+	}
+
+	const amount = parseInt(match[2], 10) * (match[1] === '-' ? -1 : 1);
+	const unitChar = match[3].charAt(0).toLowerCase();
+	const unit = unitChar === 'd' ? 'days'
+		: unitChar === 'w' ? 'weeks'
+		: unitChar === 'm' ? 'months'
+		: 'years';
+
+	return { amount, unit };
+}
+
+/**
+ * Resolve the date a rule compares against. Accepts absolute dates,
+ * "now", "today", "yesterday", "tomorrow" and offsets from today such as "-7d".
+ */
+export function parseDateOperand(text: string): Moment | null {
+	const normalized = text.trim().toLowerCase();
+
+	switch (normalized) {
+		case 'now':
+			return moment();
+		case 'today':
+			return moment().startOf('day');
+		case 'yesterday':
+			return moment().startOf('day').subtract(1, 'days');
+		case 'tomorrow':
+			return moment().startOf('day').add(1, 'days');
+	}
+
+	const duration = parseDuration(normalized);
+	if (duration) {
+		return moment().startOf('day').add(duration.amount, duration.unit);
+	}
+
+	return toDate(text);
+}
+
+/**
+ * Compare two values, returning a negative number, zero or a positive number.
+ * Returns null when either side cannot be interpreted as the given type.
+ */
+export function compareTyped(
+	value: unknown,
+	operand: string,
+	valueType: 'number' | 'date'
+): number | null {
+	if (valueType === 'date') {
+		const left = toDate(value);
+		const right = parseDateOperand(operand);
+		if (!left || !right) {
+			return null;
+		}
+		return left.valueOf() - right.valueOf();
+	}
+
+	const left = toNumber(value);
+	const right = toNumber(operand);
+	if (left === null || right === null) {
+		return null;
+	}
+	return left - right;
+}
+
+/**
+ * Check whether a date value falls in the window between now and now ± duration
+ */
+export function isWithinWindow(value: unknown, durationText: string, direction: 'past' | 'future'): boolean {
+	const date = toDate(value);
+	const duration = parseDuration(durationText);
+	if (!date || !duration) {
+		return false;
+	}
+
+	const now = moment();
+	const amount = Math.abs(duration.amount);
+
+	if (direction === 'past') {
+		const start = now.clone().subtract(amount, duration.unit);
+		return !date.isBefore(start) && !date.isAfter(now);
+	}
+
+	// Date-only values sit at midnight, so the future window starts at the beginning of today
+	const start = now.clone().startOf('day');
+	const end = now.clone().add(amount, duration.unit);
+	return !date.isBefore(start) && !date.isAfter(end);
+}
+
+const SIZE_UNITS: Record<string, number> = {
+	b: 1,
+	kb: 1024,
+	mb: 1024 * 1024,
+	gb: 1024 * 1024 * 1024
+};
+
+/**
+ * Parse a file size such as "500", "10 KB" or "1.5MB" into bytes
+ */
+export function parseSize(text: string): number | null {
+	const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(text.trim());
+	if (!match) {
+		return null;
+	}
+
+	const unit = (match[2] ?? 'b').toLowerCase();
+	return Math.round(parseFloat(match[1]) * SIZE_UNITS[unit]);
+}
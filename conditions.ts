@@ -0,0 +1,307 @@
+import {
+	ComparisonMatchType,
+	ConditionGroup,
+	ConditionOperator,
+	ContentCondition,
+	FileAttribute,
+	FileCondition,
+	LinkCondition,
+	LinkRelation,
+	MatchType,
+	PropertyCondition,
+	RuleCondition,
+	SortingRule,
+	TagCondition,
+	TextMatchType
+} from './types';
+
+const COMPARISON_MATCH_TYPES: ComparisonMatchType[] = [
+	'greaterThan',
+	'greaterOrEqual',
+	'lessThan',
+	'lessOrEqual',
+	'between',
+	'before',
+	'after',
+	'withinLast',
+	'withinNext',
+	'isTrue',
+	'isFalse',
+	'isEmpty',
+	'exists',
+	'missing'
+];
+
+const TEXT_MATCH_TYPES: string[] = ['equals', 'contains', 'startsWith', 'endsWith', 'regex', 'glob'];
+
+const VALUELESS_MATCH_TYPES: MatchType[] = ['isTrue', 'isFalse', 'isEmpty', 'exists', 'missing'];
+
+export function isComparisonMatchType(matchType: MatchType): matchType is ComparisonMatchType {
+	return (COMPARISON_MATCH_TYPES as MatchType[]).includes(matchType);
+}
+
+export function isTextMatchType(matchType: string): matchType is TextMatchType {
+	return TEXT_MATCH_TYPES.includes(matchType);
+}
+
+/**
+ * Normalize a tag for comparison: no leading '#', no surrounding whitespace
+ * and no trailing '/'
+ */
+export function normalizeTag(tag: string): string {
+	return tag.trim().replace(/^#/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Whether a match type compares against a value entered in the rule
+ */
+export function matchTypeNeedsValue(matchType: MatchType): boolean {
+	return !VALUELESS_MATCH_TYPES.includes(matchType);
+}
+
+export function createPropertyCondition(): PropertyCondition {
+	return {
+		type: 'property',
+		propertyName: 'topic',
+		propertyValue: '',
+		matchType: 'equals',
+		caseSensitive: false
+	};
+}
+
+export function createTagCondition(): TagCondition {
+	return {
+		type: 'tag',
+		tagValue: '',
+		matchType: 'equals',
+		caseSensitive: false
+	};
+}
+
+export function createFileCondition(): FileCondition {
+	return {
+		type: 'file',
+		attribute: 'name',
+		value: '',
+		matchType: 'glob',
+		caseSensitive: false
+	};
+}
+
+export function createContentCondition(): ContentCondition {
+	return {
+		type: 'content',
+		target: 'heading',
+		value: '',
+		matchType: 'equals',
+		caseSensitive: false
+	};
+}
+
+export function createLinkCondition(): LinkCondition {
+	return {
+		type: 'link',
+		relation: 'linkedFrom',
+		value: '',
+		matchType: 'equals',
+		caseSensitive: false
+	};
+}
+
+/**
+ * Match types that make sense for a link relation. Relations without
+ * a choice of match type return an empty list.
+ */
+export function linkRelationMatchTypes(relation: LinkRelation): MatchType[] {
+	switch (relation) {
+		case 'linkedFrom':
+			return ['equals', 'contains', 'startsWith', 'endsWith', 'regex', 'glob'];
+		case 'backlinks':
+			return ['greaterThan', 'greaterOrEqual', 'lessThan', 'lessOrEqual', 'between'];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Match types that make sense for a file attribute
+ */
+export function fileAttributeMatchTypes(attribute: FileAttribute): MatchType[] {
+	switch (attribute) {
+		case 'created':
+		case 'modified':
+			return ['before', 'after', 'between', 'withinLast', 'withinNext'];
+		case 'size':
+			return ['greaterThan', 'greaterOrEqual', 'lessThan', 'lessOrEqual', 'between'];
+		default:
+			return ['equals', 'contains', 'startsWith', 'endsWith', 'regex', 'glob'];
+	}
+}
+
+export function createConditionGroup(
+	operator: ConditionOperator = 'and',
+	conditions: RuleCondition[] = []
+): ConditionGroup {
+	return {
+		type: 'group',
+		operator,
+		conditions
+	};
+}
+
+/**
+ * Convert a rule saved before condition groups existed into the nested shape.
+ * Rules that already have a condition tree are returned unchanged.
+ */
+export function migrateLegacyRule(rule: SortingRule): SortingRule {
+	if (rule.conditions) {
+		return rule;
+	}
+
+	const matchType = rule.matchType ?? 'equals';
+	const caseSensitive = rule.caseSensitive ?? false;
+
+	const condition: RuleCondition = rule.useTags && rule.tagValue
+		? {
+			type: 'tag',
+			tagValue: rule.tagValue,
+			matchType,
+			caseSensitive
+		}
+		: {
+			type: 'property',
+			propertyName: rule.propertyName ?? '',
+			propertyValue: rule.propertyValue ?? '',
+			matchType,
+			caseSensitive
+		};
+
+	const migrated: SortingRule = {
+		...rule,
+		conditions: createConditionGroup('and', [condition])
+	};
+
+	delete migrated.propertyName;
+	delete migrated.propertyValue;
+	delete migrated.matchType;
+	delete migrated.caseSensitive;
+	delete migrated.useTags;
+	delete migrated.tagValue;
+
+	return migrated;
+}
+
+/**
+ * Build a short human-readable summary of a condition tree
+ */
+export function describeCondition(condition: RuleCondition): string {
+	switch (condition.type) {
+		case 'property': {
+			const name = condition.propertyName || '(not set)';
+			if (!matchTypeNeedsValue(condition.matchType)) {
+				return `${name} ${condition.matchType}`;
+			}
+			if (condition.matchType === 'between') {
+				return `${name} between ${condition.propertyValue || '(not set)'} and ${condition.propertyValueEnd || '(not set)'}`;
+			}
+			if (condition.listMode) {
+				return `${name} ${condition.matchType} ${condition.listMode} of [${condition.propertyValue || '(not set)'}]`;
+			}
+			return `${name} ${condition.matchType} ${condition.propertyValue || '(not set)'}`;
+		}
+		case 'tag':
+			if (condition.matchType === 'tagDepth') {
+				return `tag at depth ${condition.depth ?? 1}${condition.tagValue ? ` under ${condition.tagValue}` : ''}`;
+			}
+			return `tag ${condition.matchType} ${condition.tagValue || '(not set)'}`;
+		case 'file':
+			if (condition.matchType === 'between') {
+				return `file ${condition.attribute} between ${condition.value || '(not set)'} and ${condition.valueEnd || '(not set)'}`;
+			}
+			return `file ${condition.attribute} ${condition.matchType} ${condition.value || '(not set)'}`;
+		case 'content':
+			return `${condition.target} ${condition.matchType} ${condition.value || '(not set)'}`;
+		case 'link':
+			switch (condition.relation) {
+				case 'orphaned':
+					return 'is orphaned';
+				case 'linksToFolder':
+					return `links to folder ${condition.value || '(not set)'}`;
+				case 'backlinks':
+					return `backlinks ${condition.matchType} ${condition.value || '(not set)'}`;
+				default:
+					return `linked from ${condition.matchType} ${condition.value || '(not set)'}`;
+			}
+		case 'group': {
+			if (condition.conditions.length === 0) {
+				return '(no conditions)';
+			}
+
+			const parts = condition.conditions.map(child =>
+				child.type === 'group' && child.conditions.length > 1
+					? `(${describeCondition(child)})`
+					: describeCondition(child)
+			);
+
+			if (condition.operator === 'not') {
+				return `NOT ${parts.join(' OR ')}`;
+			}
+
+			return parts.join(condition.operator === 'and' ? ' AND ' : ' OR ');
+		}
+	}
+}
+
+/**
+ * Return the first validation problem in a condition tree, or null if it is valid
+ */
+export function validateCondition(condition: RuleCondition): string | null {
+	switch (condition.type) {
+		case 'property':
+			if (!condition.propertyName.trim()) {
+				return 'Please enter a property name';
+			}
+			if (matchTypeNeedsValue(condition.matchType) && !condition.propertyValue.trim()) {
+				return 'Please enter a property value';
+			}
+			if (condition.matchType === 'between' && !condition.propertyValueEnd?.trim()) {
+				return 'Please enter an upper bound for "between"';
+			}
+			return null;
+		case 'tag':
+			// Depth conditions may apply to all tags
+			if (condition.matchType === 'tagDepth') {
+				return (condition.depth ?? 0) >= 1 ? null : 'Please enter a tag depth of at least 1';
+			}
+			return condition.tagValue.trim() ? null : 'Please enter a tag value';
+		case 'file':
+			if (!condition.value.trim()) {
+				return `Please enter a value for the file ${condition.attribute} condition`;
+			}
+			if (condition.matchType === 'between' && !condition.valueEnd?.trim()) {
+				return 'Please enter an upper bound for "between"';
+			}
+			return null;
+		case 'content':
+			return condition.value.trim() ? null : `Please enter a value for the ${condition.target} condition`;
+		case 'link':
+			if (condition.relation !== 'orphaned' && !condition.value.trim()) {
+				return 'Please enter a value for the link condition';
+			}
+			if (condition.matchType === 'between' && !condition.valueEnd?.trim()) {
+				return 'Please enter an upper bound for "between"';
+			}
+			return null;
+		case 'group':
+			if (condition.conditions.length === 0) {
+				return 'Condition groups must contain at least one condition';
+			}
+			for (const child of condition.conditions) {
+				const error = validateCondition(child);
+				if (error) {
+					return error;
+				}
+			}
+			return null;
+	}
+}
@@ -0,0 +1,130 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { FileSorter, PendingConflict } from './fileSorter';
+import { ActionOutcome, ConflictStrategy } from './types';
+
+const PREVIEW_LENGTH = 600;
+
+/**
+ * Walks through queued conflicts one at a time, showing the incoming
+ * and the existing file side by side
+ */
+export class ConflictResolutionModal extends Modal {
+	private fileSorter: FileSorter;
+	private conflicts: PendingConflict[];
+	private index = 0;
+	private onResolved: (outcomes: ActionOutcome[]) => void;
+
+	constructor(
+		app: App,
+		fileSorter: FileSorter,
+		conflicts: PendingConflict[],
+		onResolved: (outcomes: ActionOutcome[]) => void
+	) {
+		super(app);
+		this.fileSorter = fileSorter;
+		this.conflicts = conflicts;
+		this.onResolved = onResolved;
+	}
+
+	onOpen(): void {
+		this.renderConflict();
+	}
+
+	private async renderConflict(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		// Files may have been moved or deleted since the conflict was queued
+		while (this.index < this.conflicts.length && !this.isStillConflicting(this.conflicts[this.index])) {
+			this.index++;
+		}
+
+		if (this.index >= this.conflicts.length) {
+			this.close();
+			return;
+		}
+
+		const conflict = this.conflicts[this.index];
+		const existing = this.app.vault.getAbstractFileByPath(conflict.targetPath) as TFile;
+
+		contentEl.createEl('h2', {
+			text: `Resolve file conflict (${this.index + 1} of ${this.conflicts.length})`
+		});
+		contentEl.createEl('p', {
+			text: `Rule "${conflict.rule.name}" wants to move ${conflict.file.name} to ${conflict.targetPath}, but a file with that name already exists.`,
+			cls: 'setting-item-description'
+		});
+
+		const columns = contentEl.createDiv({ cls: 'smart-file-sorter-conflict-columns' });
+		await this.renderFileColumn(columns, 'Incoming file', conflict.file);
+		await this.renderFileColumn(columns, 'Existing file', existing);
+
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Keep both')
+					.setCta()
+					.onClick(() => this.resolve('suffix'))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Replace existing')
+					.setWarning()
+					.onClick(() => this.resolve('replace'))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Skip')
+					.onClick(() => this.resolve('skip'))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Skip all')
+					.onClick(() => this.close())
+			);
+	}
+
+	private async renderFileColumn(container: HTMLElement, title: string, file: TFile): Promise<void> {
+		const column = container.createDiv({ cls: 'smart-file-sorter-conflict-file' });
+
+		column.createEl('h4', { text: title });
+		column.createEl('div', { text: file.path });
+		column.createEl('div', {
+			text: `${(file.stat.size / 1024).toFixed(1)} KB, modified ${new Date(file.stat.mtime).toLocaleString()}`,
+			cls: 'setting-item-description'
+		});
+
+		if (file.extension === 'md') {
+			const content = await this.app.vault.cachedRead(file);
+			const preview = content.length > PREVIEW_LENGTH
+				? `${content.slice(0, PREVIEW_LENGTH)}…`
+				: content;
+			column.createEl('pre', { text: preview, cls: 'smart-file-sorter-conflict-preview' });
+		}
+	}
+
+	private async resolve(strategy: ConflictStrategy): Promise<void> {
+		const conflict = this.conflicts[this.index];
+
+		if (strategy !== 'skip') {
+			// Re-run the whole rule so actions after the move still happen
+			const outcomes = await this.fileSorter.applyRule(conflict.file, conflict.rule, strategy);
+			this.onResolved(outcomes);
+		}
+
+		this.index++;
+		await this.renderConflict();
+	}
+
+	private isStillConflicting(conflict: PendingConflict): boolean {
+		const existing = this.app.vault.getAbstractFileByPath(conflict.targetPath);
+		return existing instanceof TFile &&
+			existing !== conflict.file &&
+			this.app.vault.getAbstractFileByPath(conflict.file.path) === conflict.file;
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,65 @@
+import { FrontMatterCache, normalizePath } from 'obsidian';
+import { matchesGlob } from './glob';
+import { toBoolean } from './comparisons';
+
+const GLOB_CHARS = /[*?]/;
+
+// Vault paths are compared as typed, like plain exclusion paths
+const GLOB_OPTIONS = { caseSensitive: true };
+
+/**
+ * Check one exclusion pattern against a vault path:
+ * - Without wildcards, a folder or file path from the vault root ("Archive", "Personal/Private")
+ * - A glob without a slash matches a file or folder name at any depth ("*.excalidraw.md")
+ * - Other globs match the path or one of its folders ("**\/_templates/**", "Projects/*\/Old")
+ */
+export function matchesExclusionPattern(path: string, pattern: string): boolean {
+	const normalizedPattern = normalizePath(pattern.trim());
+
+	if (!GLOB_CHARS.test(normalizedPattern)) {
+		return path === normalizedPattern || path.startsWith(normalizedPattern + '/');
+	}
+
+	const segments = path.split('/');
+	if (!normalizedPattern.includes('/')) {
+		return segments.some(segment => matchesGlob(segment, normalizedPattern, GLOB_OPTIONS));
+	}
+
+	for (let i = segments.length; i > 0; i--) {
+		if (matchesGlob(segments.slice(0, i).join('/'), normalizedPattern, GLOB_OPTIONS)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Check a path against exclusion patterns in order. A pattern starting with
+ * "!" brings back paths excluded by an earlier pattern; the last pattern that
+ * matches decides.
+ */
+export function isPathExcluded(path: string, patterns: string[]): boolean {
+	let excluded = false;
+
+	for (const pattern of patterns) {
+		const trimmed = pattern.trim();
+		const negated = trimmed.startsWith('!');
+		const glob = negated ? trimmed.slice(1) : trimmed;
+
+		if (glob && matchesExclusionPattern(path, glob)) {
+			excluded = !negated;
+		}
+	}
+
+	return excluded;
+}
+
+/**
+ * Whether a note asks to stay where it is with `sort: false` or `pinned: true`
+ */
+export function hasSortOptOut(frontmatter: FrontMatterCache | undefined): boolean {
+	if (!frontmatter) {
+		return false;
+	}
+	return toBoolean(frontmatter.sort) === false || toBoolean(frontmatter.pinned) === true;
+}
@@ -1,252 +1,2094 @@
-import { App, TFile, TFolder, normalizePath, Notice, CachedMetadata } from 'obsidian';
-import { SortingRule } from './types';
+import {
+	App,
+	TFile,
+	TFolder,
+	normalizePath,
+	Notice,
+	CachedMetadata,
+	FrontMatterCache,
+	getLinkpath,
+	parseFrontMatterTags,
+	moment
+} from 'obsidian';
+import {
+	ActionOutcome,
+	ActionStatus,
+	ComparisonMatchType,
+	ConditionGroup,
+	ConflictStrategy,
+	ContentCondition,
+	CopyAction,
+	FileMove,
+	FileCondition,
+	LinkCondition,
+	MoveStatus,
+	PropertyCondition,
+	RemovePropertyAction,
+	RuleAction,
+	RuleCondition,
+	RuleEvaluationStrategy,
+	SetPropertyAction,
+	SortProgress,
+	SortResult,
+	SortingRule,
+	TagAction,
+	TagCondition,
+	TextMatchType
+} from './types';
+import { isComparisonMatchType, isTextMatchType, normalizeTag } from './conditions';
+import {
+	PropertyValueType,
+	compareTyped,
+	inferValueType,
+	isEmptyValue,
+	isWithinWindow,
+	parseSize,
+	toBoolean,
+	toDate,
+	toNumber
+} from './comparisons';
+import { matchesGlob } from './glob';
+import { renderTemplate } from './pathTemplate';
+import { createActionCounts, getRuleActions } from './actions';
+import { getFullExtension, ruleAppliesToFile, splitFileName } from './fileTypes';
+import { isInSourceScope } from './sourceScope';
+import { hasSortOptOut, isPathExcluded } from './exclusions';
+import {
+	DEFAULT_SANITIZE_OPTIONS,
+	SanitizeOptions,
+	UnsafeDestinationError,
+	assertInsideRoot,
+	getTemplateRoot,
+	sanitizePathValue,
+	sanitizeSegment
+} from './pathSanitizer';
+
+// Files matched against the rules before yielding to the UI
+const MATCH_CHUNK_SIZE = 50;
+
+// Files sorted at the same time during a bulk sort
+const SORT_CONCURRENCY = 4;
+
+// Obsidian's own trash folder, where replaced files are kept so undo can restore them
+const TRASH_FOLDER = '.trash';
+
+// How long to wait for the vault to pick up a change made through the adapter
+const VAULT_SYNC_TIMEOUT = 5000;
+
+/**
+ * Subset of Obsidian's internal property type registry used to look up
+ * the type assigned to a property. Not part of the public API.
+ */
+interface MetadataTypeManager {
+	getAssignedType?(property: string): string | null;
+	properties?: Record<string, { type?: string }>;
+}
+
+/**
+ * A move blocked by an existing file, waiting for the user to decide
+ */
+export interface PendingConflict {
+	file: TFile;
+	rule: SortingRule;
+	targetPath: string;
+}
+
+/**
+ * What a bulk sort would do to one file, worked out without touching the vault
+ */
+export interface PlannedChange {
+	file: TFile;
+	// Where the file was when the plan was made
+	sourcePath: string;
+	rule: SortingRule;
+	// Actions that would change something, in rule order
+	actions: RuleAction[];
+	// Where the move action would put the file, or null when it stays put
+	targetPath: string | null;
+	// Another file already exists at targetPath, or an earlier change in the plan moves there
+	conflict: boolean;
+	// Why the rule cannot run, e.g. an unsafe destination
+	error: string | null;
+}
+
+/**
+ * A file and the rules a bulk sort will run on it, in order
+ */
+interface MatchedFile {
+	file: TFile;
+	rules: SortingRule[];
+}
+
+/**
+ * Where a conflict strategy sends a file, and where the file it replaced was put
+ */
+interface ConflictResolution {
+	path: string;
+	replaced?: string;
+}
+
+/**
+ * Everything a condition can look at while a rule is evaluated.
+ * `content` stays null until a full-text condition needs it.
+ */
+interface MatchContext {
+	file: TFile;
+	cache: CachedMetadata | null;
+	content: string | null;
+}
+
+/**
+ * Check whether a path lies inside a folder or any of its subfolders
+ */
+function isInFolder(path: string, folder: string): boolean {
+	const normalizedFolder = normalizePath(folder);
+	if (normalizedFolder === '' || normalizedFolder === '/') {
+		return true;
+	}
+	return path.startsWith(normalizedFolder + '/');
+}
+
+/**
+ * The folder part of a vault path, '/' for files in the vault root
+ */
+function getParentPath(path: string): string {
+	const slashIndex = path.lastIndexOf('/');
+	return slashIndex === -1 ? '/' : path.slice(0, slashIndex);
+}
+
+/**
+ * Remove wikilink brackets so "[[Project Phoenix]]" and "Project Phoenix" compare equal
+ */
+function stripWikilink(value: string): string {
+	return value.trim().replace(/^!?\[\[/, '').replace(/\]\]$/, '').split('|')[0];
+}
+
+function createSortResult(): SortResult {
+	return {
+		moved: 0,
+		skipped: 0,
+		errors: 0,
+		rejected: 0,
+		conflicts: 0,
+		actions: createActionCounts(),
+		moves: [],
+		failures: [],
+		rolledBack: 0,
+		cancelled: false
+	};
+}
+
+/**
+ * Count one file's action outcomes into a sort result
+ */
+function tallyOutcomes(result: SortResult, outcomes: ActionOutcome[], path: string): void {
+	for (const outcome of outcomes) {
+		if (outcome.status === 'applied') {
+			result.actions[outcome.action.type]++;
+		}
+		result.moves.push(...outcome.moves ?? []);
+	}
+
+	const last = outcomes[outcomes.length - 1];
+	if (last?.status === 'failed') {
+		result.errors++;
+		result.failures.push({ path, error: last.error ?? 'Unknown error' });
+	} else if (last?.status === 'rejected') {
+		result.rejected++;
+	} else if (last?.status === 'conflict') {
+		result.conflicts++;
+	} else if (outcomes.some(outcome => outcome.action.type === 'move' && outcome.status === 'applied')) {
+		result.moved++;
+	} else if (!outcomes.some(outcome => outcome.status === 'applied')) {
+		result.skipped++;
+	}
+}
 
 export class FileSorter {
 	private app: App;
 	private verboseLogging: boolean;
+	private sanitizeOptions: SanitizeOptions = DEFAULT_SANITIZE_OPTIONS;
+	private conflictStrategy: ConflictStrategy = 'skip';
+	private evaluationStrategy: RuleEvaluationStrategy = 'first';
+	private moveAttachments = false;
+	// Bulk sorts roll back after this many errors; null disables rollback
+	private rollbackThreshold: number | null = null;
+	// Leave notes with `sort: false` or `pinned: true` alone
+	private honorOptOut = true;
+	private pendingConflicts: PendingConflict[] = [];
+	// Paths the sorter is moving or copying files to right now
+	private ownChanges = new Set<string>();
+	// Destinations claimed by moves and copies still in progress, so files
+	// sorted at the same time cannot pick the same path
+	private reservedPaths = new Set<string>();
+	// Folders being created, shared by every move into them
+	private folderCreations = new Map<string, Promise<void>>();
+
+	constructor(app: App, verboseLogging: boolean = false) {
+		this.app = app;
+		this.verboseLogging = verboseLogging;
+	}
+
+	setVerboseLogging(verbose: boolean): void {
+		this.verboseLogging = verbose;
+	}
+
+	setSanitizeOptions(options: SanitizeOptions): void {
+		this.sanitizeOptions = options;
+	}
+
+	setConflictStrategy(strategy: ConflictStrategy): void {
+		this.conflictStrategy = strategy;
+	}
+
+	setEvaluationStrategy(strategy: RuleEvaluationStrategy): void {
+		this.evaluationStrategy = strategy;
+	}
+
+	setMoveAttachments(moveAttachments: boolean): void {
+		this.moveAttachments = moveAttachments;
+	}
+
+	/**
+	 * Whether a rename or create event at this path comes from the sorter
+	 * itself, so auto-sort does not pick up its own moves
+	 */
+	isOwnChange(path: string): boolean {
+		return this.ownChanges.has(path);
+	}
+
+	/**
+	 * Run a vault change while marking its target path as the sorter's own.
+	 * Obsidian fires rename and create events before the change resolves.
+	 */
+	private async makeOwnChange(path: string, change: () => Promise<unknown>): Promise<void> {
+		const normalizedPath = normalizePath(path);
+		this.ownChanges.add(normalizedPath);
+		try {
+			await change();
+		} finally {
+			this.ownChanges.delete(normalizedPath);
+		}
+	}
+
+	setHonorOptOut(enabled: boolean): void {
+		this.honorOptOut = enabled;
+	}
+
+	setRollbackThreshold(threshold: number | null): void {
+		this.rollbackThreshold = threshold;
+	}
+
+	/**
+	 * Check if a file matches a specific rule
+	 */
+	async fileMatchesRule(file: TFile, rule: SortingRule): Promise<boolean> {
+		return (await this.matchRule(file, rule)) !== null;
+	}
+
+	/**
+	 * Match a file against a rule. Returns the context the conditions were
+	 * evaluated in, or null when the rule does not match.
+	 */
+	private async matchRule(file: TFile, rule: SortingRule): Promise<MatchContext | null> {
+		if (!rule.enabled || !ruleAppliesToFile(rule, file) || !isInSourceScope(rule, file)) {
+			return null;
+		}
+
+		// Files without metadata can still match on file attributes
+		const context: MatchContext = {
+			file,
+			cache: this.app.metadataCache.getFileCache(file),
+			content: null
+		};
+
+		// Evaluate the cheap metadata checks first. The note is only read when
+		// the outcome still depends on a full-text condition.
+		let result = this.evaluateCondition(context, rule.conditions);
+		if (result === null) {
+			context.content = await this.readBody(file, context.cache);
+			result = this.evaluateCondition(context, rule.conditions);
+		}
+
+		return result === true ? context : null;
+	}
+
+	/**
+	 * Count the conditions a matching file satisfies, for the most specific
+	 * evaluation strategy. A satisfied NOT group counts once.
+	 * Returns null when the count depends on note content that has not been read yet.
+	 */
+	private countSatisfiedConditions(context: MatchContext, condition: RuleCondition): number | null {
+		if (condition.type !== 'group' || condition.operator === 'not') {
+			const result = this.evaluateCondition(context, condition);
+			return result === null ? null : Number(result);
+		}
+
+		let count = 0;
+		for (const child of condition.conditions) {
+			const childCount = this.countSatisfiedConditions(context, child);
+			if (childCount === null) {
+				return null;
+			}
+			count += childCount;
+		}
+		return count;
+	}
+
+	/**
+	 * Evaluate a single condition or a nested condition group.
+	 * Returns null when the result depends on note content that has not been read yet.
+	 */
+	private evaluateCondition(context: MatchContext, condition: RuleCondition): boolean | null {
+		const { file, cache } = context;
+
+		switch (condition.type) {
+			case 'property':
+				return this.matchesProperty(cache?.frontmatter, condition);
+			case 'tag':
+				return cache ? this.matchesTags(file, cache, condition) : false;
+			case 'file':
+				return this.matchesFileAttribute(file, condition);
+			case 'content':
+				return this.matchesContent(context, condition);
+			case 'link':
+				return this.matchesLinkGraph(file, condition);
+			case 'group':
+				return this.evaluateGroup(context, condition);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Evaluate a condition group. An empty group never matches, so a rule
+	 * without conditions cannot accidentally match every file.
+	 */
+	private evaluateGroup(context: MatchContext, group: ConditionGroup): boolean | null {
+		if (group.conditions.length === 0) {
+			return false;
+		}
+
+		let undecided = false;
+
+		switch (group.operator) {
+			case 'and':
+				for (const condition of group.conditions) {
+					const result = this.evaluateCondition(context, condition);
+					if (result === false) {
+						return false;
+					}
+					undecided = undecided || result === null;
+				}
+				return undecided ? null : true;
+			case 'or':
+			case 'not': {
+				let anyMatch = false;
+				for (const condition of group.conditions) {
+					const result = this.evaluateCondition(context, condition);
+					if (result === true) {
+						anyMatch = true;
+						break;
+					}
+					undecided = undecided || result === null;
+				}
+				if (!anyMatch && undecided) {
+					return null;
+				}
+				return group.operator === 'or' ? anyMatch : !anyMatch;
+			}
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Match based on note structure (headings, links, embeds, sections) or body text
+	 */
+	private matchesContent(context: MatchContext, condition: ContentCondition): boolean | null {
+		const { cache } = context;
+		const matches = (value: string): boolean =>
+			this.matchesText(value, condition.value, condition.matchType, condition.caseSensitive);
+
+		switch (condition.target) {
+			case 'heading':
+				return (cache?.headings ?? []).some(h => matches(h.heading));
+			case 'link': {
+				const links = [...(cache?.links ?? []), ...(cache?.frontmatterLinks ?? [])];
+				const target = stripWikilink(condition.value);
+				return links.some(link =>
+					this.matchesText(getLinkpath(link.link), target, condition.matchType, condition.caseSensitive)
+				);
+			}
+			case 'embed': {
+				// Compare the embedded file's name, so "*.pdf" also matches "![[Attachments/report.pdf]]"
+				const target = stripWikilink(condition.value);
+				return (cache?.embeds ?? []).some(embed =>
+					this.matchesText(this.getEmbedName(context.file, embed.link), target, condition.matchType, condition.caseSensitive)
+				);
+			}
+			case 'section':
+				return (cache?.sections ?? []).some(section => matches(section.type));
+			case 'body':
+				return context.content === null ? null : matches(context.content);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Name of the file an embed points to, or the last part of the link when it does not resolve
+	 */
+	private getEmbedName(file: TFile, link: string): string {
+		const linkpath = getLinkpath(link);
+		const target = this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path);
+		return target?.name ?? linkpath.slice(linkpath.lastIndexOf('/') + 1);
+	}
+
+	/**
+	 * Match based on the resolved link graph around the file
+	 */
+	private matchesLinkGraph(file: TFile, condition: LinkCondition): boolean {
+		switch (condition.relation) {
+			case 'linkedFrom':
+				return this.getLinkedFromCandidates(file, condition).length > 0;
+			case 'linksToFolder':
+				return this.getLinksToFolderCandidates(file, condition).length > 0;
+			case 'backlinks':
+				return isComparisonMatchType(condition.matchType) && this.matchesComparison(
+					this.getBacklinkSources(file).length,
+					condition.matchType,
+					condition.value,
+					condition.valueEnd,
+					'number'
+				);
+			case 'orphaned':
+				return this.getBacklinkSources(file).length === 0;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Notes linking to the file whose name or path matches a 'linkedFrom' condition
+	 */
+	private getLinkedFromCandidates(file: TFile, condition: LinkCondition): string[] {
+		if (isComparisonMatchType(condition.matchType)) {
+			return [];
+		}
+
+		const matchType = condition.matchType;
+		const target = stripWikilink(condition.value);
+
+		return this.getBacklinkSources(file).filter(source => {
+			const withoutExtension = source.replace(/\.md$/, '');
+			const basename = withoutExtension.split('/').pop() ?? withoutExtension;
+			return [basename, withoutExtension, source].some(candidate =>
+				this.matchesText(candidate, target, matchType, condition.caseSensitive)
+			);
+		});
+	}
+
+	/**
+	 * Notes the file links to that live in the folder of a 'linksToFolder' condition
+	 */
+	private getLinksToFolderCandidates(file: TFile, condition: LinkCondition): string[] {
+		const outgoing = Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {});
+		return outgoing.filter(path => path !== file.path && isInFolder(path, condition.value));
+	}
+
+	/**
+	 * Paths of all notes with a resolved link to the file
+	 */
+	private getBacklinkSources(file: TFile): string[] {
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		const sources: string[] = [];
+
+		for (const sourcePath in resolvedLinks) {
+			if (sourcePath !== file.path && resolvedLinks[sourcePath][file.path]) {
+				sources.push(sourcePath);
+			}
+		}
+
+		return sources;
+	}
+
+	/**
+	 * Find the hub note a file should follow, using the rule's link conditions.
+	 * Conditions inside NOT groups describe notes to avoid, so they are ignored.
+	 */
+	private findHubNote(file: TFile, rule: SortingRule): TFile | null {
+		const candidates: string[] = [];
+
+		const collect = (condition: RuleCondition): void => {
+			if (condition.type === 'group') {
+				if (condition.operator !== 'not') {
+					condition.conditions.forEach(collect);
+				}
+				return;
+			}
+			if (condition.type !== 'link') {
+				return;
+			}
+			if (condition.relation === 'linkedFrom') {
+				candidates.push(...this.getLinkedFromCandidates(file, condition));
+			} else if (condition.relation === 'linksToFolder') {
+				candidates.push(...this.getLinksToFolderCandidates(file, condition));
+			}
+		};
+
+		collect(rule.conditions);
+
+		for (const path of candidates) {
+			const hub = this.app.vault.getAbstractFileByPath(path);
+			if (hub instanceof TFile && hub !== file) {
+				return hub;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Read a note's body without its frontmatter. Non-markdown files have no body.
+	 */
+	private async readBody(file: TFile, cache: CachedMetadata | null): Promise<string> {
+		if (file.extension !== 'md') {
+			return '';
+		}
+
+		const content = await this.app.vault.cachedRead(file);
+		const frontmatterEnd = cache?.frontmatterPosition?.end.offset;
+
+		return frontmatterEnd !== undefined ? content.slice(frontmatterEnd) : content;
+	}
+
+	/**
+	 * Match based on tags
+	 */
+	private matchesTags(file: TFile, cache: CachedMetadata, condition: TagCondition): boolean {
+		return this.getAllTags(file, cache).some(tag => this.tagMatchesCondition(tag, condition));
+	}
+
+	/**
+	 * Compare one normalized tag against a tag condition
+	 */
+	private tagMatchesCondition(tag: string, condition: TagCondition): boolean {
+		const target = normalizeTag(condition.tagValue);
+
+		if (isTextMatchType(condition.matchType)) {
+			return this.matchesText(tag, target, condition.matchType, condition.caseSensitive);
+		}
+
+		const tagPath = condition.caseSensitive ? tag : tag.toLowerCase();
+		const base = condition.caseSensitive ? target : target.toLowerCase();
+		const isDescendant = base !== '' && tagPath.startsWith(base + '/');
+		const depth = tagPath.split('/').length;
+
+		switch (condition.matchType) {
+			case 'tagOrDescendant':
+				return tagPath === base || isDescendant;
+			case 'tagChild':
+				return isDescendant && depth === base.split('/').length + 1;
+			case 'tagDepth':
+				return (base === '' || tagPath === base || isDescendant) &&
+					depth === (condition.depth ?? 1);
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Get all tags from a file (frontmatter and inline), normalized without '#'
+	 * so both sources follow the same matching rules
+	 */
+	private getAllTags(file: TFile, cache: CachedMetadata): string[] {
+		const tags: string[] = [];
+
+		// Get frontmatter tags (handles both `tags` and `tag`, lists and strings)
+		const frontmatterTags = parseFrontMatterTags(cache.frontmatter);
+		if (frontmatterTags) {
+			tags.push(...frontmatterTags);
+		}
+
+		// Get inline tags
+		if (cache.tags) {
+			tags.push(...cache.tags.map(t => t.tag));
+		}
+
+		const normalized = tags.map(tag => normalizeTag(tag)).filter(tag => tag.length > 0);
+
+		return [...new Set(normalized)]; // Remove duplicates
+	}
+
+	/**
+	 * Find the first file tag matched by one of the rule's tag conditions,
+	 * together with its path below the condition's tag.
+	 * Conditions inside NOT groups are ignored.
+	 */
+	findMatchedTag(file: TFile, rule: SortingRule): { tag: string; relativePath: string } | null {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) {
+			return null;
+		}
+
+		const fileTags = this.getAllTags(file, cache);
+
+		const search = (condition: RuleCondition): { tag: string; relativePath: string } | null => {
+			if (condition.type === 'group') {
+				if (condition.operator === 'not') {
+					return null;
+				}
+				for (const child of condition.conditions) {
+					const found = search(child);
+					if (found) {
+						return found;
+					}
+				}
+				return null;
+			}
+			if (condition.type !== 'tag') {
+				return null;
+			}
+
+			const tag = fileTags.find(t => this.tagMatchesCondition(t, condition));
+			if (!tag) {
+				return null;
+			}
+
+			// The path below the condition's tag; unrelated matches keep the whole tag
+			const base = normalizeTag(condition.tagValue).toLowerCase();
+			const lowerTag = tag.toLowerCase();
+			let relativePath = tag;
+			if (base !== '' && lowerTag === base) {
+				relativePath = '';
+			} else if (base !== '' && lowerTag.startsWith(base + '/')) {
+				relativePath = tag.slice(base.length + 1);
+			}
+
+			return { tag, relativePath };
+		};
+
+		return search(rule.conditions);
+	}
+
+	/**
+	 * Match based on property value
+	 */
+	private matchesProperty(frontmatter: FrontMatterCache | undefined, condition: PropertyCondition): boolean {
+		const hasProperty = !!frontmatter &&
+			Object.prototype.hasOwnProperty.call(frontmatter, condition.propertyName);
+		const propertyValue = hasProperty ? frontmatter![condition.propertyName] : undefined;
+
+		// Presence checks work even when the property is missing or empty
+		switch (condition.matchType) {
+			case 'exists':
+				return hasProperty;
+			case 'missing':
+				return !hasProperty;
+			case 'isEmpty':
+				return hasProperty && isEmptyValue(propertyValue);
+		}
+
+		if (propertyValue === undefined || propertyValue === null) {
+			return false;
+		}
+
+		if (isComparisonMatchType(condition.matchType)) {
+			return this.matchesComparison(
+				propertyValue,
+				condition.matchType,
+				condition.propertyValue,
+				condition.propertyValueEnd,
+				this.getPropertyValueType(condition.propertyName, propertyValue)
+			);
+		}
+
+		const matchType = condition.matchType as TextMatchType;
+		const elements = Array.isArray(propertyValue)
+			? propertyValue.filter(v => v !== null && v !== undefined).map(v => String(v))
+			: [String(propertyValue)];
+
+		// Explicit list modes accept several comma-separated values; regex patterns stay whole
+		const ruleValues = condition.listMode && matchType !== 'regex'
+			? condition.propertyValue.split(',').map(v => v.trim()).filter(v => v.length > 0)
+			: [String(condition.propertyValue)];
+
+		const elementMatches = (element: string, ruleValue: string): boolean =>
+			this.matchesText(element, ruleValue, matchType, condition.caseSensitive);
+
+		switch (condition.listMode ?? 'any') {
+			case 'any':
+				return ruleValues.some(v => elements.some(e => elementMatches(e, v)));
+			case 'all':
+				return ruleValues.every(v => elements.some(e => elementMatches(e, v)));
+			case 'none':
+				return !ruleValues.some(v => elements.some(e => elementMatches(e, v)));
+			case 'exact':
+				return ruleValues.every(v => elements.some(e => elementMatches(e, v))) &&
+					elements.every(e => ruleValues.some(v => elementMatches(e, v)));
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Compare a single string value against a rule value
+	 */
+	private matchesText(
+		value: string,
+		ruleValue: string,
+		matchType: TextMatchType,
+		caseSensitive: boolean,
+		// Read YYYY, MM and DD in globs as digits; only file name conditions reserve them
+		dateTokens = false
+	): boolean {
+		switch (matchType) {
+			case 'equals':
+				return caseSensitive
+					? value === ruleValue
+					: value.toLowerCase() === ruleValue.toLowerCase();
+
+			case 'contains':
+				return caseSensitive
+					? value.includes(ruleValue)
+					: value.toLowerCase().includes(ruleValue.toLowerCase());
+
+			case 'startsWith':
+				return caseSensitive
+					? value.startsWith(ruleValue)
+					: value.toLowerCase().startsWith(ruleValue.toLowerCase());
+
+			case 'endsWith':
+				return caseSensitive
+					? value.endsWith(ruleValue)
+					: value.toLowerCase().endsWith(ruleValue.toLowerCase());
+
+			case 'glob':
+				return matchesGlob(value, ruleValue, { caseSensitive, dateTokens });
+
+			case 'regex':
+				try {
+					const regex = new RegExp(ruleValue, caseSensitive ? '' : 'i');
+					return regex.test(value);
+				} catch (e) {
+					console.error('Invalid regex pattern:', ruleValue, e);
+					return false;
+				}
+
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Match based on attributes of the file itself
+	 */
+	private matchesFileAttribute(file: TFile, condition: FileCondition): boolean {
+		switch (condition.attribute) {
+			case 'created':
+			case 'modified': {
+				if (!isComparisonMatchType(condition.matchType)) {
+					return false;
+				}
+				const timestamp = condition.attribute === 'created' ? file.stat.ctime : file.stat.mtime;
+				return this.matchesComparison(
+					new Date(timestamp),
+					condition.matchType,
+					condition.value,
+					condition.valueEnd,
+					'date'
+				);
+			}
+			case 'size': {
+				if (!isComparisonMatchType(condition.matchType)) {
+					return false;
+				}
+				// Compare in bytes so rule values can use units such as "10 KB"
+				const toBytes = (text: string | undefined): string =>
+					String(parseSize(text ?? '') ?? NaN);
+				return this.matchesComparison(
+					file.stat.size,
+					condition.matchType,
+					toBytes(condition.value),
+					toBytes(condition.valueEnd),
+					'number'
+				);
+			}
+		}
+
+		if (isComparisonMatchType(condition.matchType)) {
+			return false;
+		}
+
+		const value = condition.attribute === 'name' ? file.basename
+			: condition.attribute === 'folder' ? (file.parent?.path ?? '/')
+			: file.extension;
+
+		return this.matchesText(
+			value,
+			condition.value,
+			condition.matchType,
+			condition.caseSensitive,
+			condition.attribute === 'name'
+		);
+	}
+
+	/**
+	 * Match a value using its real type (number, date or boolean)
+	 */
+	private matchesComparison(
+		value: unknown,
+		matchType: ComparisonMatchType,
+		operand: string,
+		operandEnd: string | undefined,
+		valueType: PropertyValueType
+	): boolean {
+		// List values match when any element satisfies the comparison
+		if (Array.isArray(value)) {
+			return value.some(element => this.matchesComparison(
+				element,
+				matchType,
+				operand,
+				operandEnd,
+				valueType === 'list' ? inferValueType(element) : valueType
+			));
+		}
+
+		const orderType = valueType === 'date' ? 'date' : 'number';
+		const compare = (target: string): number | null => compareTyped(value, target, orderType);
+
+		switch (matchType) {
+			case 'isTrue':
+				return toBoolean(value) === true;
+			case 'isFalse':
+				return toBoolean(value) === false;
+			case 'isEmpty':
+				return isEmptyValue(value);
+			case 'exists':
+				return !isEmptyValue(value);
+			case 'missing':
+				return value === undefined || value === null;
+			case 'before': {
+				const result = compareTyped(value, operand, 'date');
+				return result !== null && result < 0;
+			}
+			case 'after': {
+				const result = compareTyped(value, operand, 'date');
+				return result !== null && result > 0;
+			}
+			case 'withinLast':
+				return isWithinWindow(value, operand, 'past');
+			case 'withinNext':
+				return isWithinWindow(value, operand, 'future');
+			case 'greaterThan': {
+				const result = compare(operand);
+				return result !== null && result > 0;
+			}
+			case 'greaterOrEqual': {
+				const result = compare(operand);
+				return result !== null && result >= 0;
+			}
+			case 'lessThan': {
+				const result = compare(operand);
+				return result !== null && result < 0;
+			}
+			case 'lessOrEqual': {
+				const result = compare(operand);
+				return result !== null && result <= 0;
+			}
+			case 'between': {
+				const lower = compare(operand);
+				const upper = compare(operandEnd ?? '');
+				return lower !== null && upper !== null && lower >= 0 && upper <= 0;
+			}
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Determine a property's type, preferring the type assigned in Obsidian's
+	 * property metadata and falling back to inspecting the value itself
+	 */
+	private getPropertyValueType(propertyName: string, value: unknown): PropertyValueType {
+		const typeManager = (this.app as App & { metadataTypeManager?: MetadataTypeManager })
+			.metadataTypeManager;
+		const assignedType = typeManager?.getAssignedType?.(propertyName) ??
+			typeManager?.properties?.[propertyName.toLowerCase()]?.type;
+
+		switch (assignedType) {
+			case 'number':
+				return 'number';
+			case 'date':
+			case 'datetime':
+				return 'date';
+			case 'checkbox':
+				return 'checkbox';
+			case 'multitext':
+			case 'tags':
+			case 'aliases':
+				return 'list';
+			case 'text':
+				return 'text';
+		}
+
+		return inferValueType(value);
+	}
+
+	/**
+	 * Find the rules to run on a file, in the order they run. Rules are tried
+	 * in the order the evaluation strategy gives them; evaluation stops at the
+	 * first match unless that rule is set to continue evaluating.
+	 */
+	async findMatchingRules(file: TFile, rules: SortingRule[]): Promise<SortingRule[]> {
+		const enabledRules = rules.filter(r => r.enabled);
+
+		if (this.evaluationStrategy === 'specific') {
+			// Ranking already matched every rule
+			const ranked = await this.rankBySpecificity(file, enabledRules);
+			const last = ranked.findIndex(rule => !rule.continueEvaluating);
+			return last === -1 ? ranked : ranked.slice(0, last + 1);
+		}
+
+		const candidates = this.evaluationStrategy === 'priority'
+			? [...enabledRules].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0))
+			: enabledRules;
+		const chain: SortingRule[] = [];
+
+		for (const rule of candidates) {
+			if (await this.fileMatchesRule(file, rule)) {
+				chain.push(rule);
+				if (!rule.continueEvaluating) {
+					break;
+				}
+			}
+		}
+
+		return chain;
+	}
+
+	/**
+	 * The rules a file matches, those satisfying the most conditions first.
+	 * Ties keep their list order.
+	 */
+	private async rankBySpecificity(file: TFile, rules: SortingRule[]): Promise<SortingRule[]> {
+		const scores = new Map<SortingRule, number>();
+
+		for (const rule of rules) {
+			const context = await this.matchRule(file, rule);
+			if (!context) {
+				continue;
+			}
+
+			let score = this.countSatisfiedConditions(context, rule.conditions);
+			if (score === null) {
+				context.content = await this.readBody(file, context.cache);
+				score = this.countSatisfiedConditions(context, rule.conditions) ?? 0;
+			}
+			scores.set(rule, score);
+		}
+
+		return rules
+			.filter(rule => scores.has(rule))
+			.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0));
+	}
+
+	/**
+	 * Work out the folder a file should move to under a rule.
+	 * Returns null when the destination cannot be resolved for this file, and
+	 * throws UnsafeDestinationError when it resolves somewhere it must not go.
+	 */
+	resolveDestinationFolder(file: TFile, rule: SortingRule): string | null {
+		let destinationPath: string | null = null;
+		// Templated destinations must stay below their fixed root folder
+		let root = getTemplateRoot(rule.destinationFolder);
+
+		// Follow the hub note when the rule asks for it
+		if (rule.destinationType === 'hub') {
+			const hub = this.findHubNote(file, rule);
+			if (hub) {
+				// Hub notes can live anywhere in the vault
+				destinationPath = hub.parent?.path ?? '/';
+				root = '/';
+			} else if (!rule.destinationFolder.trim()) {
+				if (this.verboseLogging) {
+					console.log(`No hub note found for ${file.path}`);
+				}
+				return null;
+			}
+		}
+
+		if (destinationPath === null) {
+			const rendered = renderTemplate(
+				rule.destinationFolder,
+				(key, format) => this.resolvePlaceholder(file, rule, key, format)
+			);
+			if (rendered.missing.length > 0) {
+				if (this.verboseLogging) {
+					console.log(`Cannot resolve ${rendered.missing.join(', ')} for ${file.path}`);
+				}
+				return null;
+			}
+			destinationPath = rendered.value;
+		}
+
+		// Mirror the nested tag path below the destination
+		if (rule.mirrorTagPath) {
+			const matchedTag = this.findMatchedTag(file, rule);
+			if (matchedTag && matchedTag.relativePath) {
+				const mirroredPath = matchedTag.relativePath
+					.split('/')
+					.map(segment => segment.charAt(0).toUpperCase() + segment.slice(1))
+					.join('/');
+				destinationPath = `${destinationPath}/${sanitizePathValue(mirroredPath, this.sanitizeOptions)}`;
+			}
+		}
+
+		// Handle subfolder creation
+		if (rule.createSubfolders && rule.subfolderProperty) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache?.frontmatter) {
+				const subfolderValue = this.pickListElement(
+					cache.frontmatter[rule.subfolderProperty],
+					rule
+				);
+				const subfolder = subfolderValue
+					? sanitizeSegment(String(subfolderValue), this.sanitizeOptions)
+					: '';
+				if (subfolder) {
+					destinationPath = `${destinationPath}/${subfolder}`;
+				}
+			}
+		}
+
+		const normalizedDestination = normalizePath(destinationPath);
+		assertInsideRoot(normalizedDestination, root);
+
+		return normalizedDestination;
+	}
+
+	/**
+	 * Resolve a destination template placeholder. Frontmatter properties come
+	 * first; the built-in keys fill in when the note has no such property.
+	 * Values are sanitized so they cannot add folders or invalid names.
+	 */
+	private resolvePlaceholder(
+		file: TFile,
+		rule: SortingRule,
+		key: string,
+		format?: string
+	): string | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		let value: unknown;
+		// Nested tags and folders keep their levels; property values form one folder name
+		let isPath = false;
+
+		// Tags and folders never come from frontmatter, where Obsidian reads `tag` as `tags`
+		switch (key) {
+			case 'tag':
+				value = this.findMatchedTag(file, rule)?.tag;
+				isPath = true;
+				break;
+			case 'folder':
+				value = file.parent?.isRoot() ? '' : file.parent?.path;
+				isPath = true;
+				break;
+			default:
+				value = frontmatter?.[key];
+				if (Array.isArray(value)) {
+					value = value.find(element => !isEmptyValue(element));
+				}
+		}
+
+		if (isEmptyValue(value)) {
+			switch (key) {
+				case 'title':
+					value = file.basename;
+					break;
+				case 'date':
+				case 'created':
+					value = new Date(file.stat.ctime);
+					break;
+				case 'modified':
+					value = new Date(file.stat.mtime);
+					break;
+			}
+		}
+
+		if (isEmptyValue(value)) {
+			return null;
+		}
+
+		if (format || value instanceof Date) {
+			// The format may deliberately contain '/', e.g. YYYY/MM
+			const date = toDate(value);
+			return date
+				? sanitizePathValue(date.format(format ?? 'YYYY-MM-DD'), this.sanitizeOptions)
+				: null;
+		}
+
+		return isPath
+			? sanitizePathValue(String(value), this.sanitizeOptions)
+			: sanitizeSegment(String(value), this.sanitizeOptions);
+	}
+
+	/**
+	 * Move a file based on a rule. `conflictStrategy` overrides the rule and
+	 * global strategies, e.g. when the user resolves a queued conflict.
+	 * The note's move and its attachments' moves are appended to `moves`.
+	 * Errors other than an unsafe destination are thrown.
+	 */
+	async moveFileByRule(
+		file: TFile,
+		rule: SortingRule,
+		conflictStrategy?: ConflictStrategy,
+		moves: FileMove[] = []
+	): Promise<MoveStatus> {
+		let reservedPath: string | null = null;
+
+		try {
+			const resolvedDestination = this.resolveDestinationFolder(file, rule);
+			if (resolvedDestination === null) {
+				return 'skipped';
+			}
+
+			const destinationPath = resolvedDestination;
+
+			// Check if file is already in the correct folder. Renaming only happens
+			// on a move, so a filename template cannot rename a file over and over.
+			const currentFolder = normalizePath(file.parent?.path ?? '/');
+			if (currentFolder === destinationPath) {
+				if (this.verboseLogging) {
+					console.log(`File already in correct location: ${file.path}`);
+				}
+				return 'skipped';
+			}
+
+			// Ensure destination folder exists
+			await this.ensureFolderExists(destinationPath);
+
+			// Calculate new file path
+			const fileName = this.resolveFileName(file, rule);
+			let newPath = normalizePath(`${destinationPath}/${fileName}`);
+
+			// Check if a file already exists at destination, or another move is heading there
+			let replaced: string | undefined;
+			if (this.isPathTaken(newPath, file)) {
+				const strategy = conflictStrategy ?? rule.conflictStrategy ?? this.conflictStrategy;
+
+				const resolution = await this.resolveConflict(file, rule, newPath, strategy);
+				if (resolution === null) {
+					return 'conflict';
+				}
+				newPath = resolution.path;
+				replaced = resolution.replaced;
+			} else {
+				this.reservedPaths.add(newPath);
+			}
+			// resolveConflict reserves the path it picks
+			reservedPath = newPath;
+
+			// Embeds resolve relative to the note, so collect them before it moves
+			const attachments = this.moveAttachments ? this.getOwnedAttachments(file) : [];
+
+			// Move the file
+			const oldBasename = file.basename;
+			const oldPath = file.path;
+			await this.makeOwnChange(newPath, () => this.app.fileManager.renameFile(file, newPath));
+			moves.push({ file: file.name, from: oldPath, to: file.path, rule: rule.name, timestamp: Date.now(), replaced });
+
+			if (rule.addOldNameAsAlias && file.basename !== oldBasename) {
+				await this.addAlias(file, oldBasename);
+			}
+
+			for (const attachment of attachments) {
+				const attachmentMove = await this.moveAttachment(attachment, file);
+				if (attachmentMove) {
+					moves.push({ ...attachmentMove, rule: rule.name });
+				}
+			}
+
+			if (this.verboseLogging) {
+				console.log(`Moved ${file.path} to ${newPath}`);
+			}
+
+			return 'moved';
+		} catch (error) {
+			if (error instanceof UnsafeDestinationError) {
+				console.warn(`Rejected destination for ${file.path} (rule "${rule.name}"): ${error.message}`);
+				return 'rejected';
+			}
+			throw error;
+		} finally {
+			if (reservedPath) {
+				this.reservedPaths.delete(reservedPath);
+			}
+		}
+	}
+
+	/**
+	 * Run a chain of matching rules in order. The chain stops early when a
+	 * rule fails, is blocked or trashes the file.
+	 */
+	async applyRules(file: TFile, rules: SortingRule[]): Promise<ActionOutcome[]> {
+		const outcomes: ActionOutcome[] = [];
+
+		for (const rule of rules) {
+			const ruleOutcomes = await this.applyRule(file, rule);
+			outcomes.push(...ruleOutcomes);
+
+			const last = ruleOutcomes[ruleOutcomes.length - 1];
+			if (
+				last?.status === 'failed' ||
+				last?.status === 'rejected' ||
+				last?.status === 'conflict' ||
+				(last?.action.type === 'trash' && last.status === 'applied')
+			) {
+				break;
+			}
+		}
+
+		return outcomes;
+	}
+
+	/**
+	 * Run a matching rule's actions in order. Stops at the first action that
+	 * fails, is rejected or conflicts, and after the file is trashed.
+	 */
+	async applyRule(
+		file: TFile,
+		rule: SortingRule,
+		conflictStrategy?: ConflictStrategy
+	): Promise<ActionOutcome[]> {
+		const outcomes: ActionOutcome[] = [];
+
+		for (const action of getRuleActions(rule)) {
+			const moves: FileMove[] = [];
+			let status: ActionStatus;
+
+			try {
+				status = await this.applyAction(file, rule, action, conflictStrategy, moves);
+				outcomes.push(moves.length > 0 ? { action, status, moves } : { action, status });
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error);
+				console.error(`Error running ${action.type} on ${file.path}:`, error);
+				new Notice(`Error running rule "${rule.name}" on ${file.name}: ${errorMessage}`);
+				// Keep moves made before the error, e.g. when adding an alias fails after
+				// the note moved, so they are journaled and can be rolled back
+				outcomes.push(moves.length > 0
+					? { action, status: 'failed', error: errorMessage, moves }
+					: { action, status: 'failed', error: errorMessage });
+				break;
+			}
+
+			if (status === 'rejected' || status === 'conflict') {
+				break;
+			}
+			if (action.type === 'trash' && status === 'applied') {
+				break;
+			}
+		}
+
+		return outcomes;
+	}
+
+	private async applyAction(
+		file: TFile,
+		rule: SortingRule,
+		action: RuleAction,
+		conflictStrategy: ConflictStrategy | undefined,
+		moves: FileMove[]
+	): Promise<ActionStatus> {
+		try {
+			switch (action.type) {
+				case 'move': {
+					const status = await this.moveFileByRule(file, rule, conflictStrategy, moves);
+					return status === 'moved' ? 'applied' : status;
+				}
+				case 'copy':
+					return await this.copyFile(file, rule, action);
+				case 'addTag':
+				case 'removeTag':
+					return await this.updateTag(file, action);
+				case 'setProperty':
+				case 'removeProperty':
+					return await this.updateProperty(file, action);
+				case 'trash':
+					await this.app.fileManager.trashFile(file);
+					if (this.verboseLogging) {
+						console.log(`Trashed ${file.path} (rule "${rule.name}")`);
+					}
+					return 'applied';
+			}
+		} catch (error) {
+			if (error instanceof UnsafeDestinationError) {
+				console.warn(`Rejected copy destination for ${file.path} (rule "${rule.name}"): ${error.message}`);
+				return 'rejected';
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Copy a file into a folder. An existing file with the same name counts as
+	 * already copied, so re-running the rule does not pile up copies.
+	 */
+	private async copyFile(file: TFile, rule: SortingRule, action: CopyAction): Promise<ActionStatus> {
+		const targetPath = this.getCopyTargetPath(file, rule, action);
+		if (!targetPath || this.reservedPaths.has(targetPath)) {
+			return 'skipped';
+		}
+
+		this.reservedPaths.add(targetPath);
+		try {
+			await this.ensureFolderExists(getParentPath(targetPath));
+			await this.makeOwnChange(targetPath, () => this.app.vault.copy(file, targetPath));
+		} finally {
+			this.reservedPaths.delete(targetPath);
+		}
+
+		if (this.verboseLogging) {
+			console.log(`Copied ${file.path} to ${targetPath}`);
+		}
+		return 'applied';
+	}
+
+	/**
+	 * Where a copy action would put the file, or null when there is nothing to copy
+	 */
+	private getCopyTargetPath(file: TFile, rule: SortingRule, action: CopyAction): string | null {
+		// Resolve the copy folder like a plain folder destination of the same rule
+		const destinationPath = this.resolveDestinationFolder(file, {
+			...rule,
+			destinationFolder: action.destinationFolder,
+			destinationType: 'folder',
+			mirrorTagPath: false,
+			createSubfolders: false
+		});
+		if (!destinationPath) {
+			return null;
+		}
+
+		const targetPath = normalizePath(`${destinationPath}/${file.name}`);
+		if (targetPath === file.path || this.app.vault.getAbstractFileByPath(targetPath)) {
+			return null;
+		}
+		return targetPath;
+	}
+
+	/**
+	 * Add or remove a tag in the note's frontmatter. Inline tags in the body are left alone.
+	 */
+	private async updateTag(file: TFile, action: TagAction): Promise<ActionStatus> {
+		const tag = normalizeTag(action.tag);
+		if (file.extension !== 'md' || !tag) {
+			return 'skipped';
+		}
+
+		let changed = false;
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			const tags: unknown[] = Array.isArray(frontmatter.tags)
+				? frontmatter.tags
+				: typeof frontmatter.tags === 'string' && frontmatter.tags.trim()
+					? frontmatter.tags.split(/[,\s]+/).filter(Boolean)
+					: [];
+			const index = tags.findIndex(existing =>
+				typeof existing === 'string' && normalizeTag(existing).toLowerCase() === tag.toLowerCase()
+			);
+
+			if (action.type === 'addTag' && index === -1) {
+				tags.push(tag);
+				changed = true;
+			} else if (action.type === 'removeTag' && index !== -1) {
+				tags.splice(index, 1);
+				changed = true;
+			}
+
+			if (changed) {
+				frontmatter.tags = tags;
+			}
+		});
+
+		return changed ? 'applied' : 'skipped';
+	}
+
+	/**
+	 * Set or remove a frontmatter property. Values are converted to the
+	 * property's type, e.g. "3" becomes a number for number properties.
+	 */
+	private async updateProperty(
+		file: TFile,
+		action: SetPropertyAction | RemovePropertyAction
+	): Promise<ActionStatus> {
+		const propertyName = action.propertyName.trim();
+		if (file.extension !== 'md' || !propertyName) {
+			return 'skipped';
+		}
+
+		const value = action.type === 'setProperty'
+			? this.toPropertyValue(propertyName, action.propertyValue)
+			: undefined;
+
+		let changed = false;
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			if (action.type === 'removeProperty') {
+				if (propertyName in frontmatter) {
+					delete frontmatter[propertyName];
+					changed = true;
+				}
+			} else if (JSON.stringify(frontmatter[propertyName]) !== JSON.stringify(value)) {
+				frontmatter[propertyName] = value;
+				changed = true;
+			}
+		});
+
+		return changed ? 'applied' : 'skipped';
+	}
+
+	private toPropertyValue(propertyName: string, text: string): unknown {
+		switch (this.getPropertyValueType(propertyName, text)) {
+			case 'number':
+				return toNumber(text) ?? text;
+			case 'checkbox':
+				return toBoolean(text) ?? text;
+			case 'list':
+				return text.split(',').map(item => item.trim()).filter(Boolean);
+			default:
+				return text;
+		}
+	}
+
+	/**
+	 * Non-note files embedded in a note that no other note links to or embeds
+	 */
+	private getOwnedAttachments(file: TFile): TFile[] {
+		const embeds = this.app.metadataCache.getFileCache(file)?.embeds ?? [];
+		const attachments = new Set<TFile>();
+
+		for (const embed of embeds) {
+			const target = this.app.metadataCache.getFirstLinkpathDest(getLinkpath(embed.link), file.path);
+			if (target && target.extension !== 'md') {
+				attachments.add(target);
+			}
+		}
+
+		if (attachments.size === 0) {
+			return [];
+		}
+
+		const sharedPaths = new Set<string>();
+		for (const [sourcePath, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+			if (sourcePath === file.path) {
+				continue;
+			}
+			for (const attachment of attachments) {
+				if (links[attachment.path]) {
+					sharedPaths.add(attachment.path);
+				}
+			}
+		}
+
+		return Array.from(attachments).filter(attachment => {
+			if (sharedPaths.has(attachment.path)) {
+				if (this.verboseLogging) {
+					console.log(`Leaving ${attachment.path} in place: other notes reference it`);
+				}
+				return false;
+			}
+			return true;
+		});
+	}
+
+	/**
+	 * Move an attachment to where Obsidian's attachment folder setting
+	 * puts new attachments for the note. Failures are logged and do not
+	 * undo the note's move.
+	 */
+	private async moveAttachment(attachment: TFile, note: TFile): Promise<FileMove | null> {
+		let targetPath: string | null = null;
+
+		try {
+			// A fixed attachment folder resolves to the folder the attachment is already in
+			const currentFolder = attachment.parent?.path ?? '/';
+			const availablePath = await this.app.fileManager.getAvailablePathForAttachment(attachment.name, note.path);
+			const targetFolder = getParentPath(availablePath);
+
+			if (normalizePath(targetFolder) === normalizePath(currentFolder)) {
+				return null;
+			}
+
+			// Obsidian does not know about paths other moves have reserved
+			targetPath = this.isPathTaken(availablePath)
+				? this.reserveAvailablePath(targetFolder, attachment.name)
+				: availablePath;
+			this.reservedPaths.add(targetPath);
+			const newPath = targetPath;
+
+			const oldPath = attachment.path;
+			await this.ensureFolderExists(targetFolder);
+			await this.makeOwnChange(newPath, () => this.app.fileManager.renameFile(attachment, newPath));
+
+			if (this.verboseLogging) {
+				console.log(`Moved attachment ${attachment.name} to ${targetPath}`);
+			}
 
-	constructor(app: App, verboseLogging: boolean = false) {
-		this.app = app;
-		this.verboseLogging = verboseLogging;
+			return {
+				file: attachment.name,
+				from: oldPath,
+				to: attachment.path,
+				rule: '',
+				timestamp: Date.now(),
+				attachment: true
+			};
+		} catch (error) {
+			console.error(`Error moving attachment ${attachment.path}:`, error);
+			return null;
+		} finally {
+			if (targetPath) {
+				this.reservedPaths.delete(targetPath);
+			}
+		}
 	}
 
-	setVerboseLogging(verbose: boolean): void {
-		this.verboseLogging = verbose;
+	/**
+	 * Pick the element of a list-valued subfolder property selected by the rule.
+	 * Scalar values are returned unchanged.
+	 */
+	private pickListElement(value: unknown, rule: SortingRule): unknown {
+		if (!Array.isArray(value)) {
+			return value;
+		}
+
+		const elements = value.filter(v => !isEmptyValue(v));
+		if (elements.length === 0) {
+			return undefined;
+		}
+
+		switch (rule.subfolderListItem ?? 'first') {
+			case 'last':
+				return elements[elements.length - 1];
+			case 'index':
+				return elements[rule.subfolderListIndex ?? 0];
+			default:
+				return elements[0];
+		}
 	}
 
 	/**
-	 * Check if a file matches a specific rule
+	 * The name a file gets at its destination: the rule's filename template
+	 * when it resolves, otherwise the current name
 	 */
-	fileMatchesRule(file: TFile, rule: SortingRule): boolean {
-		if (!rule.enabled) {
-			return false;
+	private resolveFileName(file: TFile, rule: SortingRule): string {
+		if (!rule.filenameTemplate?.trim()) {
+			return file.name;
 		}
 
-		const cache = this.app.metadataCache.getFileCache(file);
-		if (!cache) {
-			return false;
+		const rendered = renderTemplate(
+			rule.filenameTemplate,
+			(key, format) => this.resolvePlaceholder(file, rule, key, format)
+		);
+
+		if (rendered.missing.length > 0) {
+			if (this.verboseLogging) {
+				console.log(`Keeping name of ${file.path}: cannot resolve ${rendered.missing.join(', ')}`);
+			}
+			return file.name;
 		}
 
-		// Check if using tags
-		if (rule.useTags && rule.tagValue) {
-			return this.matchesTags(file, cache, rule);
+		// Date formats may contain '/', which is not allowed in a file name
+		const basename = sanitizeSegment(rendered.value.replace(/\//g, '-'), this.sanitizeOptions);
+		if (!basename) {
+			return file.name;
 		}
 
-		// Check property-based matching
-		return this.matchesProperty(cache, rule);
+		const extension = getFullExtension(file);
+		return extension ? `${basename}.${extension}` : basename;
 	}
 
 	/**
-	 * Match based on tags
+	 * Apply a conflict strategy. Returns the path to move to, reserved for the
+	 * caller, or null when the file stays where it is.
 	 */
-	private matchesTags(file: TFile, cache: CachedMetadata, rule: SortingRule): boolean {
-		const fileTags = this.getAllTags(file, cache);
+	private async resolveConflict(
+		file: TFile,
+		rule: SortingRule,
+		targetPath: string,
+		strategy: ConflictStrategy
+	): Promise<ConflictResolution | null> {
+		const folderPath = getParentPath(targetPath);
+		const targetName = targetPath.slice(targetPath.lastIndexOf('/') + 1);
+		const existingFile = this.app.vault.getAbstractFileByPath(targetPath);
 
-		if (fileTags.length === 0) {
-			return false;
-		}
+		switch (strategy) {
+			case 'suffix':
+				return { path: this.reserveAvailablePath(folderPath, targetName) };
 
-		const tagToMatch = rule.tagValue!.toLowerCase().replace(/^#/, '');
-
-		return fileTags.some(tag => {
-			const cleanTag = tag.toLowerCase().replace(/^#/, '');
-
-			switch (rule.matchType) {
-				case 'equals':
-					return rule.caseSensitive
-						? tag.replace(/^#/, '') === rule.tagValue!.replace(/^#/, '')
-						: cleanTag === tagToMatch;
-				case 'contains':
-					return cleanTag.includes(tagToMatch);
-				case 'startsWith':
-					return cleanTag.startsWith(tagToMatch);
-				case 'endsWith':
-					return cleanTag.endsWith(tagToMatch);
-				case 'regex':
-					try {
-						const regex = new RegExp(rule.tagValue!, rule.caseSensitive ? '' : 'i');
-						return regex.test(tag);
-					} catch (e) {
-						console.error('Invalid regex pattern:', rule.tagValue, e);
-						return false;
+			case 'timestamp': {
+				const [basename, extension] = splitFileName(targetName);
+				const stampedName = `${basename} ${moment().format('YYYYMMDDHHmmss')}${extension}`;
+				return { path: this.reserveAvailablePath(folderPath, stampedName, true) };
+			}
+
+			case 'replace':
+				// A file another move is still heading to cannot be replaced safely
+				if (!(existingFile instanceof TFile) || this.reservedPaths.has(targetPath)) {
+					console.warn(`Cannot replace ${targetPath}: it is a folder or another file is moving there`);
+					return null;
+				}
+				// Claim the path before trashing, so no other move takes it meanwhile
+				this.reservedPaths.add(targetPath);
+				try {
+					const replaced = await this.trashReplacedFile(existingFile);
+					if (this.verboseLogging) {
+						console.log(`Moved existing ${targetPath} to ${replaced}`);
 					}
-				default:
-					return false;
+					return { path: targetPath, replaced };
+				} catch (error) {
+					this.reservedPaths.delete(targetPath);
+					throw error;
+				}
+
+			case 'ask':
+				if (!this.pendingConflicts.some(c => c.file === file)) {
+					this.pendingConflicts.push({ file, rule, targetPath });
+				}
+				return null;
+
+			default:
+				if (this.verboseLogging) {
+					console.warn(`File already exists at destination: ${targetPath}`);
+				}
+				return null;
+		}
+	}
+
+	/**
+	 * Move a file that is being replaced into Obsidian's .trash folder under a
+	 * known name, so undo and rollback can put it back. Returns its new path.
+	 */
+	private async trashReplacedFile(file: TFile): Promise<string> {
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(TRASH_FOLDER))) {
+			await adapter.mkdir(TRASH_FOLDER);
+		}
+
+		const [basename, extension] = splitFileName(file.name);
+		const stamp = moment().format('YYYYMMDDHHmmss');
+		for (let counter = 0; ; counter++) {
+			const suffix = counter === 0 ? '' : ` ${counter}`;
+			const trashPath = `${TRASH_FOLDER}/${basename} ${stamp}${suffix}${extension}`;
+			// Reserve before checking, so two replacements cannot pick the same name
+			if (this.reservedPaths.has(trashPath)) {
+				continue;
 			}
+			this.reservedPaths.add(trashPath);
+			try {
+				if (await adapter.exists(trashPath)) {
+					continue;
+				}
+				// The move into the target path checks the vault index, so wait until it drops the file
+				const path = file.path;
+				await this.runAdapterChange(
+					() => adapter.rename(path, trashPath),
+					() => this.app.vault.getAbstractFileByPath(path) === null
+				);
+				return trashPath;
+			} finally {
+				this.reservedPaths.delete(trashPath);
+			}
+		}
+	}
+
+	/**
+	 * Put a file that a move replaced back at its old path
+	 */
+	private async restoreReplacedFile(trashPath: string, path: string): Promise<void> {
+		if (!(await this.app.vault.adapter.exists(trashPath))) {
+			console.warn(`Cannot restore ${path}: ${trashPath} no longer exists`);
+			return;
+		}
+		if (this.isPathTaken(path)) {
+			console.warn(`Cannot restore ${trashPath}: ${path} is taken`);
+			return;
+		}
+
+		try {
+			await this.ensureFolderExists(getParentPath(path));
+			// Stay marked as our own change until the vault reports the file, so auto-sort leaves it be
+			await this.makeOwnChange(path, () => this.runAdapterChange(
+				() => this.app.vault.adapter.rename(trashPath, path),
+				() => this.app.vault.getAbstractFileByPath(path) !== null
+			));
+		} catch (error) {
+			console.error(`Error restoring ${trashPath} to ${path}:`, error);
+			return;
+		}
+
+		if (this.verboseLogging) {
+			console.log(`Restored replaced file ${path}`);
+		}
+	}
+
+	/**
+	 * Run a change made through the adapter and wait until the vault index
+	 * reflects it. The file watcher reports such changes as create and delete
+	 * events after the change itself resolves.
+	 */
+	private async runAdapterChange(change: () => Promise<void>, isIndexed: () => boolean): Promise<void> {
+		let check = (): void => {};
+		const indexed = new Promise<void>(resolve => {
+			const timer = window.setTimeout(resolve, VAULT_SYNC_TIMEOUT);
+			check = () => {
+				if (isIndexed()) {
+					window.clearTimeout(timer);
+					resolve();
+				}
+			};
 		});
+		const refs = [
+			this.app.vault.on('create', () => check()),
+			this.app.vault.on('delete', () => check())
+		];
+
+		try {
+			await change();
+			check();
+			await indexed;
+		} finally {
+			for (const ref of refs) {
+				this.app.vault.offref(ref);
+			}
+		}
 	}
 
 	/**
-	 * Get all tags from a file (frontmatter and inline)
+	 * Hand over the conflicts queued by the 'ask' strategy and clear the queue
 	 */
-	private getAllTags(file: TFile, cache: CachedMetadata): string[] {
-		const tags: string[] = [];
+	takePendingConflicts(): PendingConflict[] {
+		const conflicts = this.pendingConflicts;
+		this.pendingConflicts = [];
+		return conflicts;
+	}
+
+	/**
+	 * Find a free path in a folder by appending a number, e.g. "Meeting 2.md",
+	 * and reserve it. With `tryAsIs`, the name is used unchanged when it is free.
+	 */
+	private reserveAvailablePath(folderPath: string, fileName: string, tryAsIs = false): string {
+		const [basename, extension] = splitFileName(fileName);
 
-		// Get frontmatter tags
-		if (cache.frontmatter?.tags) {
-			const frontmatterTags = cache.frontmatter.tags;
-			if (Array.isArray(frontmatterTags)) {
-				tags.push(...frontmatterTags.map(t => String(t)));
-			} else if (typeof frontmatterTags === 'string') {
-				tags.push(...frontmatterTags.split(',').map(t => t.trim()));
+		let candidate = normalizePath(`${folderPath}/${fileName}`);
+		let counter = 1;
+		if (!tryAsIs || this.isPathTaken(candidate)) {
+			candidate = normalizePath(`${folderPath}/${basename} ${counter}${extension}`);
+			while (this.isPathTaken(candidate)) {
+				counter++;
+				candidate = normalizePath(`${folderPath}/${basename} ${counter}${extension}`);
 			}
 		}
 
-		// Get inline tags
-		if (cache.tags) {
-			tags.push(...cache.tags.map(t => t.tag));
+		this.reservedPaths.add(candidate);
+		return candidate;
+	}
+
+	/**
+	 * Whether a path holds a file other than `file`, or is reserved by a move or copy in progress
+	 */
+	private isPathTaken(path: string, file?: TFile): boolean {
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		return (existing !== null && existing !== file) || this.reservedPaths.has(path);
+	}
+
+	/**
+	 * Add a name to a note's `aliases` so links and search still find it
+	 */
+	private async addAlias(file: TFile, alias: string): Promise<void> {
+		if (file.extension !== 'md') {
+			return;
 		}
 
-		return [...new Set(tags)]; // Remove duplicates
+		await this.app.fileManager.processFrontMatter(file, frontmatter => {
+			const aliases = frontmatter.aliases;
+			const list: unknown[] = Array.isArray(aliases)
+				? aliases
+				: typeof aliases === 'string' && aliases.trim() ? [aliases] : [];
+
+			if (!list.includes(alias)) {
+				list.push(alias);
+			}
+			frontmatter.aliases = list;
+		});
 	}
 
 	/**
-	 * Match based on property value
+	 * Move a file back to where it was before a recorded move, recreating
+	 * its original folder if needed. Returns false when the file is gone
+	 * or its original path is taken.
 	 */
-	private matchesProperty(cache: CachedMetadata, rule: SortingRule): boolean {
-		if (!cache.frontmatter) {
+	async undoMove(move: FileMove): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(move.to);
+		if (!(file instanceof TFile)) {
+			console.warn(`Cannot undo move of ${move.file}: ${move.to} no longer exists`);
+			return false;
+		}
+		if (this.app.vault.getAbstractFileByPath(move.from)) {
+			console.warn(`Cannot undo move of ${move.file}: ${move.from} is taken`);
 			return false;
 		}
 
-		const propertyValue = cache.frontmatter[rule.propertyName];
-
-		if (propertyValue === undefined || propertyValue === null) {
+		try {
+			await this.ensureFolderExists(getParentPath(move.from));
+			await this.makeOwnChange(move.from, () => this.app.fileManager.renameFile(file, move.from));
+		} catch (error) {
+			console.error(`Error undoing move of ${move.to}:`, error);
 			return false;
 		}
 
-		const propValueStr = String(propertyValue);
-		const ruleValueStr = String(rule.propertyValue);
+		if (this.verboseLogging) {
+			console.log(`Moved ${move.to} back to ${move.from}`);
+		}
 
-		switch (rule.matchType) {
-			case 'equals':
-				return rule.caseSensitive
-					? propValueStr === ruleValueStr
-					: propValueStr.toLowerCase() === ruleValueStr.toLowerCase();
+		if (move.replaced) {
+			await this.restoreReplacedFile(move.replaced, move.to);
+		}
+		return true;
+	}
 
-			case 'contains':
-				return rule.caseSensitive
-					? propValueStr.includes(ruleValueStr)
-					: propValueStr.toLowerCase().includes(ruleValueStr.toLowerCase());
+	/**
+	 * Ensure a folder exists, creating it if necessary. Files sorted at the
+	 * same time wait on one creation of a shared folder.
+	 */
+	private ensureFolderExists(folderPath: string): Promise<void> {
+		const normalizedPath = normalizePath(folderPath);
 
-			case 'startsWith':
-				return rule.caseSensitive
-					? propValueStr.startsWith(ruleValueStr)
-					: propValueStr.toLowerCase().startsWith(ruleValueStr.toLowerCase());
+		// Root folder always exists
+		if (normalizedPath === '' || normalizedPath === '/') {
+			return Promise.resolve();
+		}
 
-			case 'endsWith':
-				return rule.caseSensitive
-					? propValueStr.endsWith(ruleValueStr)
-					: propValueStr.toLowerCase().endsWith(ruleValueStr.toLowerCase());
+		const pending = this.folderCreations.get(normalizedPath);
+		if (pending) {
+			return pending;
+		}
 
-			case 'regex':
-				try {
-					const regex = new RegExp(ruleValueStr, rule.caseSensitive ? '' : 'i');
-					return regex.test(propValueStr);
-				} catch (e) {
-					console.error('Invalid regex pattern:', ruleValueStr, e);
-					return false;
-				}
+		const creation = this.createFolder(normalizedPath)
+			.finally(() => this.folderCreations.delete(normalizedPath));
+		this.folderCreations.set(normalizedPath, creation);
+		return creation;
+	}
 
-			default:
-				return false;
+	private async createFolder(normalizedPath: string): Promise<void> {
+		const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+
+		if (folder instanceof TFolder) {
+			return;
+		}
+		if (folder) {
+			throw new Error(`Path exists but is not a folder: ${normalizedPath}`);
+		}
+
+		// Create parents one at a time so sibling folders share them
+		await this.ensureFolderExists(getParentPath(normalizedPath));
+		await this.app.vault.createFolder(normalizedPath);
+		if (this.verboseLogging) {
+			console.log(`Created folder: ${normalizedPath}`);
 		}
 	}
 
 	/**
-	 * Find the first matching rule for a file
+	 * Check a file against the exclusion patterns and its own opt-out property
 	 */
-	findMatchingRule(file: TFile, rules: SortingRule[]): SortingRule | null {
-		for (const rule of rules) {
-			if (this.fileMatchesRule(file, rule)) {
-				return rule;
+	isFileExcluded(file: TFile, excludedPaths: string[]): boolean {
+		return isPathExcluded(file.path, excludedPaths) || this.isOptedOut(file);
+	}
+
+	/**
+	 * Whether the note opted out of sorting with `sort: false` or `pinned: true`
+	 */
+	isOptedOut(file: TFile): boolean {
+		return this.honorOptOut && hasSortOptOut(this.app.metadataCache.getFileCache(file)?.frontmatter);
+	}
+
+	/**
+	 * All files a vault sort looks at, leaving out excluded ones
+	 */
+	getVaultFiles(excludedPaths: string[]): TFile[] {
+		return this.app.vault.getFiles()
+			.filter(file => !this.isFileExcluded(file, excludedPaths));
+	}
+
+	/**
+	 * Files directly in a folder, or in it and all its subfolders, leaving out
+	 * notes that opted out of sorting
+	 */
+	getFolderFiles(folder: TFolder, recursive: boolean): TFile[] {
+		const files: TFile[] = [];
+		for (const child of folder.children) {
+			if (child instanceof TFile) {
+				if (!this.isOptedOut(child)) {
+					files.push(child);
+				}
+			} else if (recursive && child instanceof TFolder) {
+				files.push(...this.getFolderFiles(child, recursive));
 			}
 		}
-		return null;
+		return files;
 	}
 
 	/**
-	 * Move a file based on a rule
+	 * Work out what sorting the given files would change, without changing anything
 	 */
-	async moveFileByRule(file: TFile, rule: SortingRule): Promise<boolean> {
-		try {
-			let destinationPath = rule.destinationFolder;
-
-			// Handle subfolder creation
-			if (rule.createSubfolders && rule.subfolderProperty) {
-				const cache = this.app.metadataCache.getFileCache(file);
-				if (cache?.frontmatter) {
-					const subfolderValue = cache.frontmatter[rule.subfolderProperty];
-					if (subfolderValue) {
-						destinationPath = normalizePath(
-							`${destinationPath}/${String(subfolderValue)}`
-						);
+	async planSort(
+		files: TFile[],
+		rules: SortingRule[],
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<PlannedChange[]> {
+		const enabledRules = rules.filter(r => r.enabled);
+		const plan: PlannedChange[] = [];
+		const result = createSortResult();
+		const plannedTargets = new Set<string>();
+
+		for (let i = 0; i < files.length; i++) {
+			if (i % MATCH_CHUNK_SIZE === 0) {
+				if (signal?.aborted) {
+					break;
+				}
+				onProgress?.({ phase: 'matching', current: i, total: files.length, result });
+				await sleep(0);
+			}
+
+			const changes = (await this.findMatchingRules(files[i], enabledRules))
+				.map(rule => this.planChange(files[i], rule))
+				.filter((change): change is PlannedChange => change !== null);
+			for (const change of changes) {
+				if (change.targetPath) {
+					if (plannedTargets.has(change.targetPath)) {
+						change.conflict = true;
 					}
+					plannedTargets.add(change.targetPath);
 				}
 			}
+			if (changes.length > 0) {
+				plan.push(...changes);
+			} else {
+				result.skipped++;
+			}
+		}
 
-			// Normalize the destination folder path
-			destinationPath = normalizePath(destinationPath);
+		return plan;
+	}
 
-			// Ensure destination folder exists
-			await this.ensureFolderExists(destinationPath);
+	/**
+	 * Apply planned changes by running each file's rules. Files that were
+	 * moved or deleted since planning are skipped.
+	 */
+	async applyPlan(
+		changes: PlannedChange[],
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<SortResult> {
+		// A file has one change per rule in its chain, in the order they run
+		const rulesByFile = new Map<TFile, SortingRule[]>();
+		const sourcePaths = new Map<TFile, string>();
+		for (const change of changes) {
+			rulesByFile.set(change.file, [...rulesByFile.get(change.file) ?? [], change.rule]);
+			sourcePaths.set(change.file, change.sourcePath);
+		}
 
-			// Calculate new file path
-			const newPath = normalizePath(`${destinationPath}/${file.name}`);
+		return this.runBatch(
+			Array.from(rulesByFile.keys()),
+			async file => file.path === sourcePaths.get(file) && this.app.vault.getAbstractFileByPath(file.path) === file
+				? rulesByFile.get(file) ?? []
+				: [],
+			onProgress,
+			signal
+		);
+	}
 
-			// Check if file is already in the correct location
-			if (file.path === newPath) {
-				if (this.verboseLogging) {
-					console.log(`File already in correct location: ${file.path}`);
-				}
-				return false;
-			}
+	/**
+	 * Plan one file's rule. Returns null when none of its actions would change anything.
+	 */
+	private planChange(file: TFile, rule: SortingRule): PlannedChange | null {
+		const change: PlannedChange = {
+			file,
+			sourcePath: file.path,
+			rule,
+			actions: [],
+			targetPath: null,
+			conflict: false,
+			error: null
+		};
 
-			// Check if a file already exists at destination
-			const existingFile = this.app.vault.getAbstractFileByPath(newPath);
-			if (existingFile && existingFile !== file) {
-				if (this.verboseLogging) {
-					console.warn(`File already exists at destination: ${newPath}`);
+		try {
+			for (const action of getRuleActions(rule)) {
+				if (action.type === 'move') {
+					change.targetPath = this.getMoveTargetPath(file, rule);
+					if (change.targetPath) {
+						const existing = this.app.vault.getAbstractFileByPath(change.targetPath);
+						change.conflict = existing !== null && existing !== file;
+						change.actions.push(action);
+					}
+				} else if (this.isActionPending(file, rule, action)) {
+					change.actions.push(action);
 				}
-				new Notice(`Cannot move ${file.name}: file already exists at destination`);
-				return false;
-			}
 
-			// Move the file
-			await this.app.fileManager.renameFile(file, newPath);
-
-			if (this.verboseLogging) {
-				console.log(`Moved ${file.path} to ${newPath}`);
+				if (action.type === 'trash') {
+					break;
+				}
 			}
-
-			return true;
 		} catch (error) {
-			const errorMessage = error instanceof Error ? error.message : String(error);
-			console.error(`Error moving file ${file.path}:`, error);
-			new Notice(`Error moving file ${file.name}: ${errorMessage}`);
-			return false;
+			if (!(error instanceof UnsafeDestinationError)) {
+				throw error;
+			}
+			change.error = error.message;
 		}
+
+		return change.actions.length > 0 || change.error ? change : null;
 	}
 
 	/**
-	 * Ensure a folder exists, creating it if necessary
+	 * Where the rule would move a file, or null when it would stay where it is
 	 */
-	private async ensureFolderExists(folderPath: string): Promise<void> {
-		const normalizedPath = normalizePath(folderPath);
-
-		// Root folder always exists
-		if (normalizedPath === '' || normalizedPath === '/') {
-			return;
+	private getMoveTargetPath(file: TFile, rule: SortingRule): string | null {
+		const destinationPath = this.resolveDestinationFolder(file, rule);
+		if (destinationPath === null || normalizePath(file.parent?.path ?? '/') === destinationPath) {
+			return null;
 		}
+		return normalizePath(`${destinationPath}/${this.resolveFileName(file, rule)}`);
+	}
 
-		const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
+	/**
+	 * Whether an action other than move would change the file, judged from the metadata cache
+	 */
+	private isActionPending(file: TFile, rule: SortingRule, action: RuleAction): boolean {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
 
-		if (!folder) {
-			await this.app.vault.createFolder(normalizedPath);
-			if (this.verboseLogging) {
-				console.log(`Created folder: ${normalizedPath}`);
+		switch (action.type) {
+			case 'move':
+				return this.getMoveTargetPath(file, rule) !== null;
+			case 'copy':
+				return this.getCopyTargetPath(file, rule, action) !== null;
+			case 'addTag':
+			case 'removeTag': {
+				if (file.extension !== 'md') {
+					return false;
+				}
+				const tag = normalizeTag(action.tag).toLowerCase();
+				const hasTag = (parseFrontMatterTags(frontmatter) ?? [])
+					.some(existing => normalizeTag(existing).toLowerCase() === tag);
+				return action.type === 'addTag' ? !hasTag : hasTag;
 			}
-		} else if (!(folder instanceof TFolder)) {
-			throw new Error(`Path exists but is not a folder: ${normalizedPath}`);
+			case 'setProperty': {
+				const value = this.toPropertyValue(action.propertyName.trim(), action.propertyValue);
+				return file.extension === 'md' &&
+					JSON.stringify(frontmatter?.[action.propertyName.trim()]) !== JSON.stringify(value);
+			}
+			case 'removeProperty':
+				return frontmatter !== undefined && action.propertyName.trim() in frontmatter;
+			case 'trash':
+				return true;
 		}
 	}
 
@@ -255,114 +2097,162 @@ export class FileSorter {
 	 */
 	async sortAllFiles(
 		rules: SortingRule[],
-		excludedFolders: string[],
-		onProgress?: (current: number, total: number) => void
-	): Promise<{ moved: number; skipped: number; errors: number }> {
-		const files = this.app.vault.getMarkdownFiles();
+		excludedPaths: string[],
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<SortResult> {
 		const enabledRules = rules.filter(r => r.enabled);
 
 		if (enabledRules.length === 0) {
 			new Notice('No enabled sorting rules found');
-			return { moved: 0, skipped: 0, errors: 0 };
+			return createSortResult();
 		}
 
-		let moved = 0;
-		let skipped = 0;
-		let errors = 0;
+		return this.runBatch(
+			this.app.vault.getFiles(),
+			async file => this.isFileExcluded(file, excludedPaths)
+				? []
+				: this.findMatchingRules(file, enabledRules),
+			onProgress,
+			signal
+		);
+	}
 
-		for (let i = 0; i < files.length; i++) {
-			const file = files[i];
+	/**
+	 * Sort files in a specific folder
+	 */
+	async sortFolder(
+		folder: TFolder,
+		rules: SortingRule[],
+		recursive: boolean = false,
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<SortResult> {
+		const enabledRules = rules.filter(r => r.enabled);
 
-			// Check if file is in excluded folder
-			if (this.isFileInExcludedFolder(file, excludedFolders)) {
-				skipped++;
-				continue;
-			}
+		return this.runBatch(
+			this.getFolderFiles(folder, recursive),
+			file => this.findMatchingRules(file, enabledRules),
+			onProgress,
+			signal
+		);
+	}
 
-			// Find matching rule
-			const matchingRule = this.findMatchingRule(file, enabledRules);
+	/**
+	 * Work out every file's rules first, then run them a few files at a
+	 * time. Files without a rule are skipped. Aborting the signal stops the
+	 * batch once the files already being sorted are done. With a rollback
+	 * threshold set, the batch stops once it reaches that many errors and
+	 * every move it made is undone.
+	 */
+	private async runBatch(
+		files: TFile[],
+		getRules: (file: TFile) => Promise<SortingRule[]>,
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<SortResult> {
+		const result = createSortResult();
+		const matches = await this.matchFiles(files, getRules, result, onProgress, signal);
+
+		const shouldStop = () => signal?.aborted ||
+			(this.rollbackThreshold !== null && result.errors >= this.rollbackThreshold);
+
+		let next = 0;
+		let done = 0;
+		const sortNext = async () => {
+			while (next < matches.length && !shouldStop()) {
+				const { file, rules } = matches[next++];
+				const path = file.path;
 
-			if (!matchingRule) {
-				skipped++;
-			} else {
 				try {
-					const wasMoved = await this.moveFileByRule(file, matchingRule);
-					if (wasMoved) {
-						moved++;
-					} else {
-						skipped++;
-					}
+					tallyOutcomes(result, await this.applyRules(file, rules), path);
 				} catch (error) {
-					console.error(`Error processing ${file.path}:`, error);
-					errors++;
+					this.recordFailure(result, path, error);
 				}
-			}
 
-			if (onProgress) {
-				onProgress(i + 1, files.length);
+				done++;
+				onProgress?.({ phase: 'sorting', current: done, total: matches.length, result });
 			}
+		};
+
+		if (!shouldStop()) {
+			onProgress?.({ phase: 'sorting', current: 0, total: matches.length, result });
+			const workers = Math.min(SORT_CONCURRENCY, matches.length);
+			await Promise.all(Array.from({ length: workers }, sortNext));
+		}
+
+		if (signal?.aborted && done < matches.length) {
+			result.cancelled = true;
+		}
+		if (this.rollbackThreshold !== null && result.errors >= this.rollbackThreshold) {
+			await this.rollBack(result);
 		}
 
-		return { moved, skipped, errors };
+		return result;
 	}
 
 	/**
-	 * Check if a file is in an excluded folder
+	 * Find each file's rules, yielding to the UI between chunks so large vaults
+	 * stay responsive. Files without a rule are counted as skipped.
 	 */
-	private isFileInExcludedFolder(file: TFile, excludedFolders: string[]): boolean {
-		if (excludedFolders.length === 0) {
-			return false;
+	private async matchFiles(
+		files: TFile[],
+		getRules: (file: TFile) => Promise<SortingRule[]>,
+		result: SortResult,
+		onProgress?: (progress: SortProgress) => void,
+		signal?: AbortSignal
+	): Promise<MatchedFile[]> {
+		const matches: MatchedFile[] = [];
+
+		for (let i = 0; i < files.length; i++) {
+			if (i % MATCH_CHUNK_SIZE === 0) {
+				if (signal?.aborted) {
+					break;
+				}
+				onProgress?.({ phase: 'matching', current: i, total: files.length, result });
+				await sleep(0);
+			}
+
+			const file = files[i];
+			try {
+				const rules = await getRules(file);
+				if (rules.length > 0) {
+					matches.push({ file, rules });
+				} else {
+					result.skipped++;
+				}
+			} catch (error) {
+				this.recordFailure(result, file.path, error);
+			}
 		}
 
-		const filePath = file.path;
+		return matches;
+	}
 
-		return excludedFolders.some(excludedFolder => {
-			const normalizedExcluded = normalizePath(excludedFolder);
-			return filePath.startsWith(normalizedExcluded + '/') ||
-			       filePath === normalizedExcluded;
-		});
+	private recordFailure(result: SortResult, path: string, error: unknown): void {
+		const errorMessage = error instanceof Error ? error.message : String(error);
+		console.error(`Error processing ${path}:`, error);
+		result.errors++;
+		result.failures.push({ path, error: errorMessage });
 	}
 
 	/**
-	 * Sort files in a specific folder
+	 * Undo every move a batch made, newest first. Moves that cannot be undone
+	 * stay in the result and are reported as failures.
 	 */
-	async sortFolder(
-		folder: TFolder,
-		rules: SortingRule[],
-		recursive: boolean = false
-	): Promise<{ moved: number; skipped: number; errors: number }> {
-		const enabledRules = rules.filter(r => r.enabled);
-		let moved = 0;
-		let skipped = 0;
-		let errors = 0;
-
-		for (const child of folder.children) {
-			if (child instanceof TFile && child.extension === 'md') {
-				const matchingRule = this.findMatchingRule(child, enabledRules);
+	private async rollBack(result: SortResult): Promise<void> {
+		console.warn(`Rolling back ${result.moves.length} moves after ${result.errors} errors`);
 
-				if (!matchingRule) {
-					skipped++;
-				} else {
-					try {
-						const wasMoved = await this.moveFileByRule(child, matchingRule);
-						if (wasMoved) {
-							moved++;
-						} else {
-							skipped++;
-						}
-					} catch (error) {
-						console.error(`Error processing ${child.path}:`, error);
-						errors++;
-					}
-				}
-			} else if (recursive && child instanceof TFolder) {
-				const result = await this.sortFolder(child, rules, recursive);
-				moved += result.moved;
-				skipped += result.skipped;
-				errors += result.errors;
+		const remaining: FileMove[] = [];
+		for (const move of [...result.moves].reverse()) {
+			if (await this.undoMove(move)) {
+				result.rolledBack++;
+			} else {
+				remaining.unshift(move);
+				result.failures.push({ path: move.to, error: `Could not move back to ${move.from}` });
 			}
 		}
 
-		return { moved, skipped, errors };
+		result.moves = remaining;
 	}
 }
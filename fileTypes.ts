@@ -0,0 +1,86 @@
+import { TFile } from 'obsidian';
+import { FileType, SortingRule } from './types';
+
+const EXTENSIONS_BY_TYPE: Partial<Record<FileType, string[]>> = {
+	canvas: ['canvas'],
+	pdf: ['pdf'],
+	image: ['png', 'jpg', 'jpeg', 'gif', 'bmp', 'svg', 'webp', 'avif'],
+	audio: ['mp3', 'wav', 'm4a', 'ogg', 'flac', '3gp'],
+	video: ['mp4', 'webm', 'ogv', 'mov', 'mkv']
+};
+
+// Rules without file types sort notes only
+const DEFAULT_FILE_TYPES: FileType[] = ['markdown'];
+
+/**
+ * Excalidraw drawings are either `.excalidraw` files or markdown notes named `*.excalidraw.md`
+ */
+function isExcalidraw(file: TFile): boolean {
+	return file.extension === 'excalidraw' ||
+		(file.extension === 'md' && file.basename.toLowerCase().endsWith('.excalidraw'));
+}
+
+/**
+ * Classify a file for the rule's "applies to file types" setting
+ */
+export function getFileType(file: TFile): FileType {
+	if (isExcalidraw(file)) {
+		return 'excalidraw';
+	}
+	if (file.extension === 'md') {
+		return 'markdown';
+	}
+
+	const extension = file.extension.toLowerCase();
+	for (const [type, extensions] of Object.entries(EXTENSIONS_BY_TYPE)) {
+		if (extensions?.includes(extension)) {
+			return type as FileType;
+		}
+	}
+	return 'other';
+}
+
+/**
+ * Rules saved before file types existed sorted every .md file, drawing notes
+ * included. Give them both types so they keep matching `*.excalidraw.md`.
+ */
+export function migrateRuleFileTypes(rule: SortingRule): SortingRule {
+	return rule.fileTypes ? rule : { ...rule, fileTypes: ['markdown', 'excalidraw'] };
+}
+
+export function getRuleFileTypes(rule: SortingRule): FileType[] {
+	return rule.fileTypes && rule.fileTypes.length > 0 ? rule.fileTypes : DEFAULT_FILE_TYPES;
+}
+
+/**
+ * Check whether a rule applies to a file's type at all
+ */
+export function ruleAppliesToFile(rule: SortingRule, file: TFile): boolean {
+	return getRuleFileTypes(rule).includes(getFileType(file));
+}
+
+/**
+ * The extension a renamed file must keep, including the `.excalidraw` part of drawing notes
+ */
+export function getFullExtension(file: TFile): string {
+	if (file.extension === 'md' && isExcalidraw(file)) {
+		return 'excalidraw.md';
+	}
+	return file.extension;
+}
+
+/**
+ * Split a file name into base name and extension (with its dot),
+ * keeping `.excalidraw.md` together
+ */
+export function splitFileName(fileName: string): [string, string] {
+	if (fileName.toLowerCase().endsWith('.excalidraw.md')) {
+		const index = fileName.length - '.excalidraw.md'.length;
+		return [fileName.slice(0, index), fileName.slice(index)];
+	}
+
+	const extensionIndex = fileName.lastIndexOf('.');
+	return extensionIndex > 0
+		? [fileName.slice(0, extensionIndex), fileName.slice(extensionIndex)]
+		: [fileName, ''];
+}
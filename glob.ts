@@ -0,0 +1,68 @@
+export interface GlobOptions {
+	caseSensitive?: boolean;
+	// Treat YYYY, MM and DD as digit placeholders, e.g. "YYYY-MM-DD Meeting*"
+	dateTokens?: boolean;
+}
+
+const REGEX_SPECIAL_CHARS = /[.+^${}()|[\]\\]/g;
+
+/**
+ * Convert a glob pattern to a regular expression anchored at both ends.
+ * Supports `*` (anything except `/`), `**` (anything, including `/`) and `?` (one character).
+ */
+export function globToRegExp(pattern: string, options: GlobOptions = {}): RegExp {
+	let source = '';
+	let i = 0;
+
+	while (i < pattern.length) {
+		const char = pattern[i];
+
+		if (char === '*') {
+			if (pattern[i + 1] === '*') {
+				// "**/" also matches zero folders
+				if (pattern[i + 2] === '/') {
+					source += '(?:.*/)?';
+					i += 3;
+				} else {
+					source += '.*';
+					i += 2;
+				}
+			} else {
+				source += '[^/]*';
+				i++;
+			}
+			continue;
+		}
+
+		if (char === '?') {
+			source += '[^/]';
+			i++;
+			continue;
+		}
+
+		if (options.dateTokens) {
+			if (pattern.startsWith('YYYY', i)) {
+				source += '\\d{4}';
+				i += 4;
+				continue;
+			}
+			if (pattern.startsWith('MM', i) || pattern.startsWith('DD', i)) {
+				source += '\\d{2}';
+				i += 2;
+				continue;
+			}
+		}
+
+		source += char.replace(REGEX_SPECIAL_CHARS, '\\$&');
+		i++;
+	}
+
+	return new RegExp(`^${source}$`, options.caseSensitive ? '' : 'i');
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchesGlob(value: string, pattern: string, options: GlobOptions = {}): boolean {
+	return globToRegExp(pattern, options).test(value);
+}
@@ -0,0 +1,280 @@
+import { DropdownComponent, ItemView, Notice, Setting, TFile, WorkspaceLeaf, moment, normalizePath } from 'obsidian';
+import SmartFileSorterPlugin from './main';
+import { MoveOperation } from './types';
+
+export const VIEW_TYPE_MOVE_HISTORY = 'smart-file-sorter-move-history';
+
+type ExportFormat = 'markdown' | 'csv' | 'json';
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+	markdown: 'md',
+	csv: 'csv',
+	json: 'json'
+};
+
+interface HistoryFilter {
+	search: string;
+	rule: string;
+	folder: string;
+	// YYYY-MM-DD, inclusive
+	from: string;
+	to: string;
+}
+
+function escapeMarkdownCell(value: string): string {
+	return value.replace(/\|/g, '\\|');
+}
+
+function escapeCsvCell(value: string): string {
+	return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format moves for an audit record in the vault
+ */
+function formatMoves(moves: MoveOperation[], format: ExportFormat): string {
+	switch (format) {
+		case 'json':
+			return JSON.stringify(moves, null, 2);
+		case 'csv': {
+			const header = ['timestamp', 'file', 'from', 'to', 'rule', 'batch', 'attachment', 'undone'];
+			const rows = moves.map(move => [
+				new Date(move.timestamp).toISOString(),
+				move.file,
+				move.from,
+				move.to,
+				move.rule,
+				move.batchId,
+				move.attachment ? 'yes' : 'no',
+				move.undoneAt !== undefined ? new Date(move.undoneAt).toISOString() : ''
+			].map(escapeCsvCell).join(','));
+			return [header.join(','), ...rows].join('\n');
+		}
+		case 'markdown': {
+			const rows = moves.map(move => '| ' + [
+				moment(move.timestamp).format('YYYY-MM-DD HH:mm:ss'),
+				move.file,
+				move.from,
+				move.to,
+				move.rule,
+				move.undoneAt !== undefined ? moment(move.undoneAt).format('YYYY-MM-DD HH:mm:ss') : ''
+			].map(escapeMarkdownCell).join(' | ') + ' |');
+			return [
+				'| Time | File | From | To | Rule | Undone |',
+				'| --- | --- | --- | --- | --- | --- |',
+				...rows
+			].join('\n') + '\n';
+		}
+	}
+}
+
+/**
+ * Pane listing every journaled move, with filters, search and export
+ */
+export class MoveHistoryView extends ItemView {
+	private plugin: SmartFileSorterPlugin;
+	private filter: HistoryFilter = { search: '', rule: '', folder: '', from: '', to: '' };
+	private listEl: HTMLElement | null = null;
+	private ruleDropdown: DropdownComponent | null = null;
+	private unsubscribe: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: SmartFileSorterPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_MOVE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return 'Move history';
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen(): Promise<void> {
+		// Leave the filters alone so typing in the search box keeps its focus
+		this.unsubscribe = this.plugin.journal.onChange(() => {
+			this.updateRuleOptions();
+			this.renderList();
+		});
+		this.render();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+	}
+
+	private render(): void {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('smart-file-sorter-history');
+
+		this.renderFilters(container);
+
+		this.listEl = container.createDiv({ cls: 'smart-file-sorter-history-list' });
+		this.renderList();
+	}
+
+	private renderFilters(container: HTMLElement): void {
+		new Setting(container)
+			.setName('Search')
+			.addSearch(search =>
+				search
+					.setPlaceholder('File name or path')
+					.setValue(this.filter.search)
+					.onChange(value => {
+						this.filter.search = value;
+						this.renderList();
+					})
+			);
+
+		new Setting(container)
+			.setName('Rule')
+			.addDropdown(dropdown => {
+				this.ruleDropdown = dropdown;
+				this.updateRuleOptions();
+				dropdown.onChange(value => {
+					this.filter.rule = value;
+					this.renderList();
+				});
+			});
+
+		new Setting(container)
+			.setName('Folder')
+			.setDesc('Moves from or to this folder')
+			.addText(text =>
+				text
+					.setPlaceholder('Projects')
+					.setValue(this.filter.folder)
+					.onChange(value => {
+						this.filter.folder = value;
+						this.renderList();
+					})
+			);
+
+		const dateSetting = new Setting(container).setName('Date range');
+		for (const key of ['from', 'to'] as const) {
+			const input = dateSetting.controlEl.createEl('input', { type: 'date' });
+			input.value = this.filter[key];
+			input.addEventListener('change', () => {
+				this.filter[key] = input.value;
+				this.renderList();
+			});
+		}
+
+		new Setting(container)
+			.setName('Export')
+			.setDesc('Save the moves shown below as a note or file in the vault root')
+			.addButton(btn => btn.setButtonText('Markdown').onClick(() => this.export('markdown')))
+			.addButton(btn => btn.setButtonText('CSV').onClick(() => this.export('csv')))
+			.addButton(btn => btn.setButtonText('JSON').onClick(() => this.export('json')));
+	}
+
+	/**
+	 * Offer every rule that appears in the journal
+	 */
+	private updateRuleOptions(): void {
+		if (!this.ruleDropdown) {
+			return;
+		}
+		const rules = Array.from(new Set(this.plugin.journal.getMoves().map(move => move.rule).filter(Boolean))).sort();
+
+		this.ruleDropdown.selectEl.empty();
+		this.ruleDropdown.addOption('', 'All rules');
+		for (const rule of rules) {
+			this.ruleDropdown.addOption(rule, rule);
+		}
+		this.ruleDropdown.setValue(this.filter.rule);
+	}
+
+	private renderList(): void {
+		if (!this.listEl) {
+			return;
+		}
+		this.listEl.empty();
+
+		const moves = this.getFilteredMoves();
+		this.listEl.createEl('p', {
+			text: `${moves.length} ${moves.length === 1 ? 'move' : 'moves'}`,
+			cls: 'setting-item-description'
+		});
+
+		for (const move of moves) {
+			const itemEl = this.listEl.createDiv({ cls: 'smart-file-sorter-history-item' });
+			itemEl.createDiv({ text: move.file, cls: 'smart-file-sorter-history-file' });
+			itemEl.createDiv({ text: `${move.from} → ${move.to}`, cls: 'setting-item-description' });
+			itemEl.createDiv({
+				text: [
+					moment(move.timestamp).format('YYYY-MM-DD HH:mm'),
+					move.rule ? `Rule: ${move.rule}` : '',
+					move.attachment ? 'attachment' : '',
+					move.undoneAt !== undefined ? `undone ${moment(move.undoneAt).format('YYYY-MM-DD HH:mm')}` : ''
+				].filter(Boolean).join(' · '),
+				cls: 'setting-item-description'
+			});
+
+			itemEl.addEventListener('click', () => this.openFile(move));
+		}
+	}
+
+	/**
+	 * Matching moves, newest first
+	 */
+	private getFilteredMoves(): MoveOperation[] {
+		const search = this.filter.search.trim().toLowerCase();
+		const folder = normalizePath(this.filter.folder.trim());
+		const from = this.filter.from ? moment(this.filter.from, 'YYYY-MM-DD').startOf('day').valueOf() : null;
+		const to = this.filter.to ? moment(this.filter.to, 'YYYY-MM-DD').endOf('day').valueOf() : null;
+
+		const inFolder = (path: string) => path.startsWith(folder + '/');
+
+		return this.plugin.journal.getMoves()
+			.filter(move =>
+				(!search || [move.file, move.from, move.to].some(value => value.toLowerCase().includes(search))) &&
+				(!this.filter.rule || move.rule === this.filter.rule) &&
+				(!this.filter.folder.trim() || inFolder(move.from) || inFolder(move.to)) &&
+				(from === null || move.timestamp >= from) &&
+				(to === null || move.timestamp <= to)
+			)
+			.reverse();
+	}
+
+	private async openFile(move: MoveOperation): Promise<void> {
+		// An undone move put the file back where it came from
+		const path = move.undoneAt !== undefined ? move.from : move.to;
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (!(file instanceof TFile)) {
+			new Notice(`${path} no longer exists`);
+			return;
+		}
+		await this.app.workspace.getLeaf(false).openFile(file);
+	}
+
+	private async export(format: ExportFormat): Promise<void> {
+		const moves = this.getFilteredMoves().reverse();
+		if (moves.length === 0) {
+			new Notice('No moves to export');
+			return;
+		}
+
+		const baseName = `Move history ${moment().format('YYYY-MM-DD HHmmss')}`;
+		const path = normalizePath(`${baseName}.${EXPORT_EXTENSIONS[format]}`);
+
+		try {
+			const file = await this.app.vault.create(path, formatMoves(moves, format));
+			new Notice(`Exported ${moves.length} moves to ${file.path}`);
+			if (format === 'markdown') {
+				await this.app.workspace.getLeaf(false).openFile(file);
+			}
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Error exporting move history: ${errorMessage}`);
+			console.error('Error exporting move history:', error);
+		}
+	}
+}
@@ -0,0 +1,69 @@
+import { TFile } from 'obsidian';
+import { FileMove } from './types';
+
+/**
+ * Why a file was stopped: the rules and folders it bounced between
+ */
+export interface LoopReport {
+	moves: number;
+	rules: string[];
+	folders: string[];
+}
+
+/**
+ * Notices when auto-sort keeps moving the same file, e.g. between two
+ * rules that send it to each other's destinations
+ */
+export class LoopDetector {
+	private moveLimit = 3;
+	private windowMs = 60000;
+	// Keyed by file rather than path so the history follows the file as it moves
+	private recentMoves = new Map<TFile, FileMove[]>();
+
+	setLimits(moveLimit: number, windowMs: number): void {
+		this.moveLimit = moveLimit;
+		this.windowMs = windowMs;
+	}
+
+	/**
+	 * Record an auto-sort move. Returns a report once the file has moved more
+	 * than the limit within the window, or null while it has not.
+	 */
+	recordMove(file: TFile, move: FileMove): LoopReport | null {
+		const since = move.timestamp - this.windowMs;
+		const moves = (this.recentMoves.get(file) ?? []).filter(recent => recent.timestamp >= since);
+		moves.push(move);
+		this.recentMoves.set(file, moves);
+		this.pruneExpired(since);
+
+		if (moves.length <= this.moveLimit) {
+			return null;
+		}
+
+		return {
+			moves: moves.length,
+			rules: Array.from(new Set(moves.map(recent => recent.rule))),
+			folders: Array.from(new Set(moves.flatMap(recent => [recent.from, recent.to].map(getFolder))))
+		};
+	}
+
+	/**
+	 * Drop a file's history, e.g. when it is released from quarantine
+	 */
+	forget(file: TFile): void {
+		this.recentMoves.delete(file);
+	}
+
+	private pruneExpired(since: number): void {
+		for (const [file, moves] of this.recentMoves) {
+			if (moves.every(recent => recent.timestamp < since)) {
+				this.recentMoves.delete(file);
+			}
+		}
+	}
+}
+
+function getFolder(path: string): string {
+	const slashIndex = path.lastIndexOf('/');
+	return slashIndex === -1 ? '/' : path.slice(0, slashIndex);
+}
@@ -1,19 +1,63 @@
 import { Plugin, TFile, Notice, TFolder } from 'obsidian';
 import { SmartFileSorterSettingTab } from './settings';
-import { FileSorter } from './fileSorter';
-import { PluginSettings, DEFAULT_SETTINGS, MoveOperation } from './types';
+import { FileSorter, PlannedChange } from './fileSorter';
+import { SanitizeOptions } from './pathSanitizer';
+import { ConflictResolutionModal } from './conflictModal';
+import { SortPreviewModal } from './previewModal';
+import { MoveJournal } from './moveJournal';
+import { BatchSuggestModal, UndoSinceModal } from './undoModal';
+import { MoveHistoryView, VIEW_TYPE_MOVE_HISTORY } from './historyView';
+import { SortFailureModal } from './reportModal';
+import { SortProgressModal } from './progressModal';
+import { AutoSortOptions, AutoSortScheduler } from './autoSortScheduler';
+import { LoopDetector, LoopReport } from './loopDetector';
+import { isFolderInPattern } from './sourceScope';
+import { createConditionGroup, createPropertyCondition, createTagCondition, migrateLegacyRule } from './conditions';
+import { migrateRuleFileTypes } from './fileTypes';
+import { ACTION_RESULT_LABELS, RULE_ACTION_TYPES, describeAction } from './actions';
+import {
+	ActionOutcome,
+	ActionStatus,
+	BatchKind,
+	FileMove,
+	PluginSettings,
+	DEFAULT_SETTINGS,
+	MoveOperation,
+	RuleActionType,
+	SortResult,
+	SortingRule
+} from './types';
 
 export default class SmartFileSorterPlugin extends Plugin {
 	settings: PluginSettings;
 	fileSorter: FileSorter;
+	journal: MoveJournal;
+	private scheduler: AutoSortScheduler;
+	private loopDetector: LoopDetector;
 	private processingFiles: Set<string> = new Set();
-	private moveHistory: MoveOperation[] = [];
 
 	async onload() {
 		await this.loadSettings();
 
 		// Initialize file sorter
 		this.fileSorter = new FileSorter(this.app, this.settings.verboseLogging);
+		this.fileSorter.setSanitizeOptions(this.getSanitizeOptions());
+		this.fileSorter.setConflictStrategy(this.settings.conflictStrategy);
+		this.fileSorter.setEvaluationStrategy(this.settings.ruleEvaluation);
+		this.fileSorter.setMoveAttachments(this.settings.moveAttachments);
+		this.fileSorter.setRollbackThreshold(this.getRollbackThreshold());
+		this.fileSorter.setHonorOptOut(this.settings.honorSortOptOut);
+
+		this.journal = new MoveJournal(this);
+
+		this.scheduler = new AutoSortScheduler(this.app, file => this.autoSortFile(file));
+		this.scheduler.setOptions(this.getAutoSortOptions());
+		this.scheduler.setVerboseLogging(this.settings.verboseLogging);
+
+		this.loopDetector = new LoopDetector();
+		this.loopDetector.setLimits(this.settings.loopMoveLimit, this.settings.loopWindow * 1000);
+
+		this.registerView(VIEW_TYPE_MOVE_HISTORY, leaf => new MoveHistoryView(leaf, this));
 
 		// Add settings tab
 		this.addSettingTab(new SmartFileSorterSettingTab(this.app, this));
@@ -28,6 +72,7 @@ export default class SmartFileSorterPlugin extends Plugin {
 	}
 
 	onunload() {
+		this.scheduler.cancelAll();
 		console.log('Smart File Sorter plugin unloaded');
 	}
 
@@ -67,6 +112,32 @@ export default class SmartFileSorterPlugin extends Plugin {
 			callback: () => this.showMoveHistory()
 		});
 
+		// Command: Undo the last move
+		this.addCommand({
+			id: 'undo-last-move',
+			name: 'Undo last move',
+			callback: () => this.undoMoves(this.journal.getLastMove())
+		});
+
+		// Command: Undo a batch of moves
+		this.addCommand({
+			id: 'undo-batch',
+			name: 'Undo a batch of moves',
+			callback: () => this.chooseBatchToUndo()
+		});
+
+		// Command: Undo all moves since a point in time
+		this.addCommand({
+			id: 'undo-moves-since',
+			name: 'Undo all moves since…',
+			callback: () => {
+				new UndoSinceModal(
+					this.app,
+					timestamp => this.undoMoves(this.journal.getMovesSince(timestamp))
+				).open();
+			}
+		});
+
 		// Command: Auto-generate rules from vault
 		this.addCommand({
 			id: 'auto-generate-rules',
@@ -83,28 +154,105 @@ export default class SmartFileSorterPlugin extends Plugin {
 				if (
 					this.settings.enableAutoSort &&
 					this.settings.sortOnModify &&
-					file instanceof TFile &&
-					file.extension === 'md'
+					file instanceof TFile
 				) {
-					this.autoSortFile(file);
+					this.scheduler.schedule(file);
 				}
 			})
 		);
 
-		// Handle file creation
+		// The metadata cache only tracks notes, so other files are sorted on modify
 		this.registerEvent(
-			this.app.vault.on('create', (file) => {
+			this.app.vault.on('modify', (file) => {
 				if (
 					this.settings.enableAutoSort &&
-					this.settings.sortOnCreate &&
+					this.settings.sortOnModify &&
 					file instanceof TFile &&
-					file.extension === 'md'
+					file.extension !== 'md'
 				) {
-					// Delay to ensure metadata is loaded
-					setTimeout(() => this.autoSortFile(file), 1000);
+					this.scheduler.schedule(file);
+				}
+			})
+		);
+
+		// Obsidian fires create for every existing file while it loads the vault,
+		// so only listen for new files and renames once the layout is ready
+		this.app.workspace.onLayoutReady(() => {
+			// Handle file creation
+			this.registerEvent(
+				this.app.vault.on('create', (file) => {
+					if (
+						this.settings.enableAutoSort &&
+						file instanceof TFile &&
+						!this.fileSorter.isOwnChange(file.path) &&
+						(this.settings.sortOnCreate || this.isInInboxFolder(file.path))
+					) {
+						this.scheduler.schedule(file);
+					}
+				})
+			);
+
+			// Handle renames and moves made by the user
+			this.registerEvent(
+				this.app.vault.on('rename', (file, oldPath) => {
+					if (
+						this.settings.enableAutoSort &&
+						file instanceof TFile &&
+						!this.fileSorter.isOwnChange(file.path) &&
+						(this.settings.sortOnRename || this.isArrivingInInbox(file.path, oldPath))
+					) {
+						this.scheduler.schedule(file);
+					}
+				})
+			);
+		});
+
+		// Keep quarantined files tracked when the user moves or deletes them
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				const entry = this.settings.quarantinedFiles.find(quarantined => quarantined.path === oldPath);
+				if (entry) {
+					entry.path = file.path;
+					this.saveSettings();
+				}
+			})
+		);
+
+		this.registerEvent(
+			this.app.vault.on('delete', (file) => {
+				if (this.isQuarantined(file.path)) {
+					this.releaseFromQuarantine(file.path);
 				}
 			})
 		);
+
+		// Notes held while open are sorted once another file is active
+		this.registerEvent(
+			this.app.workspace.on('active-leaf-change', () => {
+				this.scheduler.onActiveFileChange();
+			})
+		);
+	}
+
+	private isInInboxFolder(path: string): boolean {
+		const folderPath = this.getFolderPath(path);
+		return this.settings.inboxFolders.some(pattern => isFolderInPattern(folderPath, pattern));
+	}
+
+	/**
+	 * Whether a move put the file into an inbox folder it was not in before
+	 */
+	private isArrivingInInbox(path: string, oldPath: string): boolean {
+		const folderPath = this.getFolderPath(path);
+		const oldFolderPath = this.getFolderPath(oldPath);
+		return this.settings.inboxFolders.some(pattern =>
+			isFolderInPattern(folderPath, pattern) && !isFolderInPattern(oldFolderPath, pattern)
+		);
+	}
+
+	private getFolderPath(path: string): string {
+		const slashIndex = path.lastIndexOf('/');
+		return slashIndex === -1 ? '/' : path.slice(0, slashIndex);
 	}
 
 	private async autoSortFile(file: TFile): Promise<void> {
@@ -113,34 +261,52 @@ export default class SmartFileSorterPlugin extends Plugin {
 			return;
 		}
 
-		// Check if file is in excluded folder
-		if (this.isFileExcluded(file)) {
+		// Check exclusion patterns and the note's opt-out property
+		if (this.fileSorter.isFileExcluded(file, this.settings.excludedFolders)) {
+			return;
+		}
+
+		if (this.isQuarantined(file.path)) {
+			if (this.settings.verboseLogging) {
+				console.log(`Not auto-sorting ${file.path}: it is quarantined`);
+			}
 			return;
 		}
 
 		this.processingFiles.add(file.path);
 
 		try {
-			const matchingRule = this.fileSorter.findMatchingRule(
+			const matchingRules = await this.fileSorter.findMatchingRules(
 				file,
 				this.settings.rules
 			);
 
-			if (matchingRule) {
-				const originalPath = file.path;
-				const moved = await this.fileSorter.moveFileByRule(file, matchingRule);
-
-				if (moved) {
-					// Record the move
-					this.recordMove(file.name, originalPath, file.path, matchingRule.name);
-
-					if (this.settings.showNotifications) {
+			if (matchingRules.length > 0) {
+				// The last rule in the chain, usually the one that moves the file
+				const matchingRule = matchingRules[matchingRules.length - 1];
+				const outcomes = await this.fileSorter.applyRules(file, matchingRules);
+				const moveStatus = await this.recordOutcomes('auto', outcomes);
+				await this.checkForLoop(file, outcomes);
+
+				if (this.settings.showNotifications) {
+					if (moveStatus === 'rejected') {
+						new Notice(`Did not move ${file.name}: its destination is unsafe (see console)`);
+					} else if (moveStatus === 'conflict') {
+						new Notice(`Did not move ${file.name}: a file with the same name already exists at the destination`);
+					} else if (moveStatus === 'applied') {
 						new Notice(
-							`Moved ${file.name} to ${matchingRule.destinationFolder}`
+							`Moved ${file.name} to ${file.parent?.path ?? matchingRule.destinationFolder}`
 						);
 					}
+
+					const applied = this.describeAppliedActions(outcomes, matchingRule, ['move']);
+					if (applied) {
+						new Notice(`${file.name}: ${applied}`);
+					}
 				}
 			}
+
+			this.reviewPendingConflicts('auto');
 		} catch (error) {
 			console.error('Error auto-sorting file:', error);
 		} finally {
@@ -151,6 +317,58 @@ export default class SmartFileSorterPlugin extends Plugin {
 		}
 	}
 
+	/**
+	 * Quarantine a file that auto-sort has moved too often in a short time
+	 */
+	private async checkForLoop(file: TFile, outcomes: ActionOutcome[]): Promise<void> {
+		const moves = outcomes
+			.flatMap(outcome => outcome.moves ?? [])
+			.filter(move => !move.attachment);
+
+		for (const move of moves) {
+			const report = this.loopDetector.recordMove(file, move);
+			if (report) {
+				await this.quarantineFile(file, report);
+				return;
+			}
+		}
+	}
+
+	private async quarantineFile(file: TFile, report: LoopReport): Promise<void> {
+		this.settings.quarantinedFiles.push({
+			path: file.path,
+			rules: report.rules,
+			folders: report.folders,
+			timestamp: Date.now()
+		});
+		await this.saveSettings();
+
+		const message = `Stopped auto-sorting ${file.name}: it moved ${report.moves} times in ` +
+			`${this.settings.loopWindow} seconds between rules ${report.rules.map(rule => `"${rule}"`).join(', ')}. ` +
+			'Check these rules, then release the file under Quarantined files in the plugin settings.';
+		console.warn(`${message} Folders: ${report.folders.join(', ')}`);
+		new Notice(message, 15000);
+	}
+
+	isQuarantined(path: string): boolean {
+		return this.settings.quarantinedFiles.some(quarantined => quarantined.path === path);
+	}
+
+	/**
+	 * Let auto-sort move the file again
+	 */
+	async releaseFromQuarantine(path: string): Promise<void> {
+		this.settings.quarantinedFiles = this.settings.quarantinedFiles
+			.filter(quarantined => quarantined.path !== path);
+
+		const file = this.app.vault.getAbstractFileByPath(path);
+		if (file instanceof TFile) {
+			this.loopDetector.forget(file);
+		}
+
+		await this.saveSettings();
+	}
+
 	private async sortCurrentFile(): Promise<void> {
 		const activeFile = this.app.workspace.getActiveFile();
 
@@ -159,34 +377,42 @@ export default class SmartFileSorterPlugin extends Plugin {
 			return;
 		}
 
-		if (activeFile.extension !== 'md') {
-			new Notice('Current file is not a markdown file');
+		if (this.fileSorter.isOptedOut(activeFile)) {
+			new Notice('This note opted out of sorting with sort: false or pinned: true');
 			return;
 		}
 
-		const matchingRule = this.fileSorter.findMatchingRule(
+		const matchingRules = await this.fileSorter.findMatchingRules(
 			activeFile,
 			this.settings.rules
 		);
 
-		if (!matchingRule) {
+		if (matchingRules.length === 0) {
 			new Notice('No matching rule found for current file');
 			return;
 		}
 
-		if (!matchingRule.enabled) {
-			new Notice(`Matching rule "${matchingRule.name}" is disabled`);
-			return;
+		// The last rule in the chain, usually the one that moves the file
+		const matchingRule = matchingRules[matchingRules.length - 1];
+		const outcomes = await this.fileSorter.applyRules(activeFile, matchingRules);
+		const moveStatus = await this.recordOutcomes('file', outcomes);
+		const applied = this.describeAppliedActions(outcomes, matchingRule, ['move']);
+
+		if (moveStatus === 'applied') {
+			new Notice(`Moved to ${activeFile.parent?.path ?? matchingRule.destinationFolder}`);
+		} else if (moveStatus === 'rejected') {
+			new Notice('Cannot move file: its destination is unsafe (see console)');
+		} else if (moveStatus === 'conflict') {
+			new Notice(`Cannot move ${activeFile.name}: file already exists at destination`);
+			this.reviewPendingConflicts('file');
+		} else if (!applied && !outcomes.some(outcome => outcome.status === 'failed')) {
+			new Notice(moveStatus === 'skipped'
+				? 'File is already in the correct location'
+				: `Nothing to do for rule "${matchingRule.name}"`);
 		}
 
-		const originalPath = activeFile.path;
-		const moved = await this.fileSorter.moveFileByRule(activeFile, matchingRule);
-
-		if (moved) {
-			this.recordMove(activeFile.name, originalPath, activeFile.path, matchingRule.name);
-			new Notice(`Moved to ${matchingRule.destinationFolder}`);
-		} else {
-			new Notice('File is already in the correct location');
+		if (applied) {
+			new Notice(`${activeFile.name}: ${applied}`);
 		}
 	}
 
@@ -198,29 +424,33 @@ export default class SmartFileSorterPlugin extends Plugin {
 			return;
 		}
 
-		const progressNotice = new Notice('Sorting files...', 0);
+		if (this.settings.previewBulkSorts) {
+			await this.previewSort(
+				this.fileSorter.getVaultFiles(this.settings.excludedFolders),
+				'Preview: sort all files',
+				'Sorting complete!',
+				'vault'
+			);
+			return;
+		}
+
+		const progressModal = this.openProgressModal('Sorting all files');
 
 		try {
 			const result = await this.fileSorter.sortAllFiles(
 				this.settings.rules,
 				this.settings.excludedFolders,
-				(current, total) => {
-					progressNotice.setMessage(
-						`Sorting files... ${current}/${total}`
-					);
-				}
+				progress => progressModal.update(progress),
+				progressModal.signal
 			);
 
-			progressNotice.hide();
-
-			const summary = `Sorting complete!\n` +
-				`Moved: ${result.moved}\n` +
-				`Skipped: ${result.skipped}\n` +
-				`Errors: ${result.errors}`;
+			progressModal.finish();
+			await this.recordMoves('vault', result.moves);
 
-			new Notice(summary, 5000);
+			this.reportSortResult('Sorting complete!', result);
+			this.reviewPendingConflicts('vault');
 		} catch (error) {
-			progressNotice.hide();
+			progressModal.finish();
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			new Notice(`Error sorting files: ${errorMessage}`);
 			console.error('Error sorting all files:', error);
@@ -249,69 +479,262 @@ export default class SmartFileSorterPlugin extends Plugin {
 			return;
 		}
 
+		const recursiveText = recursive ? ' (including subfolders)' : '';
+
+		if (this.settings.previewBulkSorts) {
+			await this.previewSort(
+				this.fileSorter.getFolderFiles(folder, recursive),
+				`Preview: sort ${folder.name}${recursiveText}`,
+				`Sorted ${folder.name}${recursiveText}`,
+				'folder'
+			);
+			return;
+		}
+
+		const progressModal = this.openProgressModal(`Sorting ${folder.name}${recursiveText}`);
+
 		try {
 			const result = await this.fileSorter.sortFolder(
 				folder,
 				this.settings.rules,
-				recursive
+				recursive,
+				progress => progressModal.update(progress),
+				progressModal.signal
 			);
 
-			const recursiveText = recursive ? ' (including subfolders)' : '';
-			const summary = `Sorted ${folder.name}${recursiveText}\n` +
-				`Moved: ${result.moved}\n` +
-				`Skipped: ${result.skipped}\n` +
-				`Errors: ${result.errors}`;
-
-			new Notice(summary, 5000);
+			progressModal.finish();
+			await this.recordMoves('folder', result.moves);
+			this.reportSortResult(`Sorted ${folder.name}${recursiveText}`, result);
+			this.reviewPendingConflicts('folder');
 		} catch (error) {
+			progressModal.finish();
 			const errorMessage = error instanceof Error ? error.message : String(error);
 			new Notice(`Error sorting folder: ${errorMessage}`);
 			console.error('Error sorting folder:', error);
 		}
 	}
 
-	private showMoveHistory(): void {
-		if (this.moveHistory.length === 0) {
-			new Notice('No move history available');
-			return;
+	/**
+	 * Plan a bulk sort and let the user choose which changes to apply
+	 */
+	private async previewSort(
+		files: TFile[],
+		title: string,
+		summaryTitle: string,
+		batchKind: BatchKind
+	): Promise<void> {
+		const progressModal = this.openProgressModal('Planning sort');
+
+		try {
+			const plan = await this.fileSorter.planSort(
+				files,
+				this.settings.rules,
+				progress => progressModal.update(progress),
+				progressModal.signal
+			);
+
+			progressModal.finish();
+
+			if (progressModal.signal.aborted) {
+				new Notice('Sort cancelled');
+				return;
+			}
+
+			if (plan.length === 0) {
+				new Notice('Nothing to sort: all files are already in place');
+				return;
+			}
+
+			new SortPreviewModal(
+				this.app,
+				title,
+				plan,
+				changes => this.applyPlannedChanges(changes, summaryTitle, batchKind)
+			).open();
+		} catch (error) {
+			progressModal.finish();
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Error planning sort: ${errorMessage}`);
+			console.error('Error planning sort:', error);
 		}
+	}
 
-		const recentMoves = this.moveHistory.slice(-10).reverse();
-		const historyText = recentMoves
-			.map(op => {
-				const date = new Date(op.timestamp).toLocaleString();
-				return `[${date}] ${op.file}\n  ${op.from} → ${op.to}\n  Rule: ${op.rule}`;
-			})
-			.join('\n\n');
-
-		new Notice(historyText, 10000);
-		console.log('Move History:', this.moveHistory);
-	}
-
-	private recordMove(
-		fileName: string,
-		from: string,
-		to: string,
-		ruleName: string
-	): void {
-		const operation: MoveOperation = {
-			file: fileName,
-			from,
-			to,
-			rule: ruleName,
-			timestamp: Date.now()
-		};
+	private async applyPlannedChanges(
+		changes: PlannedChange[],
+		summaryTitle: string,
+		batchKind: BatchKind
+	): Promise<void> {
+		const progressModal = this.openProgressModal('Sorting files');
+
+		try {
+			const result = await this.fileSorter.applyPlan(
+				changes,
+				progress => progressModal.update(progress),
+				progressModal.signal
+			);
+
+			progressModal.finish();
+			await this.recordMoves(batchKind, result.moves);
+			this.reportSortResult(summaryTitle, result);
+			this.reviewPendingConflicts(batchKind);
+		} catch (error) {
+			progressModal.finish();
+			const errorMessage = error instanceof Error ? error.message : String(error);
+			new Notice(`Error sorting files: ${errorMessage}`);
+			console.error('Error applying sort:', error);
+		}
+	}
+
+	private openProgressModal(title: string): SortProgressModal {
+		const progressModal = new SortProgressModal(this.app, title);
+		progressModal.open();
+		return progressModal;
+	}
+
+	/**
+	 * Show a bulk sort's summary, and the failed files when there are any
+	 */
+	private reportSortResult(title: string, result: SortResult): void {
+		new Notice(this.formatSortSummary(title, result), 5000);
+
+		if (result.failures.length > 0) {
+			const failureTitle = result.rolledBack > 0 ? 'Sort rolled back' : 'Some files could not be sorted';
+			new SortFailureModal(this.app, failureTitle, result).open();
+		}
+	}
+
+	private getSummaryHeading(title: string, result: SortResult): string {
+		if (result.rolledBack > 0) {
+			return `${title} (rolled back ${result.rolledBack} moves)`;
+		}
+		return result.cancelled ? 'Sort cancelled' : title;
+	}
+
+	private formatSortSummary(title: string, result: SortResult): string {
+		const lines = [
+			this.getSummaryHeading(title, result),
+			`Moved: ${result.moved}`,
+			`Skipped: ${result.skipped}`,
+			`Conflicts: ${result.conflicts}`,
+			`Rejected (unsafe destination): ${result.rejected}`,
+			`Errors: ${result.errors}`
+		];
+
+		// Other actions are only listed when a rule used them
+		for (const type of RULE_ACTION_TYPES) {
+			if (type !== 'move' && result.actions[type] > 0) {
+				lines.push(`${ACTION_RESULT_LABELS[type]}: ${result.actions[type]}`);
+			}
+		}
+
+		return lines.join('\n');
+	}
+
+	/**
+	 * Journal the moves from a rule's action outcomes and return the move's status
+	 */
+	private async recordOutcomes(
+		batchKind: BatchKind,
+		outcomes: ActionOutcome[]
+	): Promise<ActionStatus | undefined> {
+		await this.recordMoves(batchKind, outcomes.flatMap(outcome => outcome.moves ?? []));
+		// With chained rules, the last move decides where the file ended up
+		return [...outcomes].reverse().find(outcome => outcome.action.type === 'move')?.status;
+	}
+
+	/**
+	 * Summarize the actions that changed something, e.g. "add #filed, set status: filed"
+	 */
+	private describeAppliedActions(
+		outcomes: ActionOutcome[],
+		rule: SortingRule,
+		exclude: RuleActionType[] = []
+	): string {
+		return outcomes
+			.filter(outcome => outcome.status === 'applied' && !exclude.includes(outcome.action.type))
+			.map(outcome => describeAction(outcome.action, rule))
+			.join(', ');
+	}
 
-		this.moveHistory.push(operation);
+	/**
+	 * Open the conflict resolution modal for conflicts queued by the 'ask' strategy
+	 */
+	private reviewPendingConflicts(batchKind: BatchKind): void {
+		const conflicts = this.fileSorter.takePendingConflicts();
+		if (conflicts.length === 0) {
+			return;
+		}
+
+		new ConflictResolutionModal(
+			this.app,
+			this.fileSorter,
+			conflicts,
+			outcomes => this.recordOutcomes(batchKind, outcomes)
+		).open();
+	}
 
-		// Keep only last 100 moves
-		if (this.moveHistory.length > 100) {
-			this.moveHistory = this.moveHistory.slice(-100);
+	/**
+	 * Reveal the move history pane, opening it in the right sidebar if needed
+	 */
+	private async showMoveHistory(): Promise<void> {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_MOVE_HISTORY)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) {
+				return;
+			}
+			leaf = rightLeaf;
+			await leaf.setViewState({ type: VIEW_TYPE_MOVE_HISTORY, active: true });
 		}
 
+		workspace.revealLeaf(leaf);
+	}
+
+	private async recordMoves(batchKind: BatchKind, moves: FileMove[]): Promise<void> {
 		if (this.settings.verboseLogging) {
-			console.log('File moved:', operation);
+			for (const move of moves) {
+				console.log('File moved:', move);
+			}
+		}
+
+		await this.journal.record(batchKind, moves);
+	}
+
+	private chooseBatchToUndo(): void {
+		const batches = this.journal.getBatches();
+		if (batches.length === 0) {
+			new Notice('No moves to undo');
+			return;
 		}
+
+		new BatchSuggestModal(this.app, batches, batch => this.undoMoves(batch.moves)).open();
+	}
+
+	/**
+	 * Move files back to their original paths, newest move first, and mark
+	 * the undone moves in the journal
+	 */
+	private async undoMoves(moves: MoveOperation[]): Promise<void> {
+		if (moves.length === 0) {
+			new Notice('No moves to undo');
+			return;
+		}
+
+		const undone: MoveOperation[] = [];
+		for (const move of [...moves].reverse()) {
+			if (await this.fileSorter.undoMove(move)) {
+				undone.push(move);
+			}
+		}
+
+		await this.journal.markUndone(undone);
+
+		const failed = moves.length - undone.length;
+		new Notice(failed === 0
+			? `Undid ${undone.length} ${undone.length === 1 ? 'move' : 'moves'}`
+			: `Undid ${undone.length} of ${moves.length} moves. ${failed} could not be undone (see console).`);
 	}
 
 	private async autoGenerateRules(): Promise<void> {
@@ -378,7 +801,7 @@ export default class SmartFileSorterPlugin extends Plugin {
 		};
 
 		// Generate rules for common properties
-		const newRules = [];
+		const newRules: SortingRule[] = [];
 		const commonProperties = ['topic', 'category', 'type', 'project', 'status'];
 
 		for (const [propName, values] of propertyValues) {
@@ -392,11 +815,12 @@ export default class SmartFileSorterPlugin extends Plugin {
 						enabled: true,
 						destinationFolder: folderName,
 						createSubfolders: false,
-						propertyName: propName,
-						propertyValue: value,
-						matchType: 'equals' as const,
-						caseSensitive: false,
-						useTags: false
+						fileTypes: ['markdown'],
+						conditions: createConditionGroup('and', [{
+							...createPropertyCondition(),
+							propertyName: propName,
+							propertyValue: value
+						}])
 					});
 				}
 			}
@@ -424,12 +848,11 @@ export default class SmartFileSorterPlugin extends Plugin {
 					enabled: true,
 					destinationFolder: capitalizedFolder,
 					createSubfolders: false,
-					propertyName: 'tags',
-					propertyValue: tag,
-					matchType: 'equals' as const,
-					caseSensitive: false,
-					useTags: true,
-					tagValue: tag
+					fileTypes: ['markdown'],
+					conditions: createConditionGroup('and', [{
+						...createTagCondition(),
+						tagValue: tag
+					}])
 				});
 			}
 		}
@@ -446,23 +869,11 @@ export default class SmartFileSorterPlugin extends Plugin {
 		new Notice(`Generated ${newRules.length} rules! Check Settings → Smart File Sorter to review and adjust.`, 7000);
 	}
 
-	private isFileExcluded(file: TFile): boolean {
-		if (this.settings.excludedFolders.length === 0) {
-			return false;
-		}
-
-		const filePath = file.path;
-
-		return this.settings.excludedFolders.some(excludedFolder => {
-			return (
-				filePath.startsWith(excludedFolder + '/') ||
-				filePath === excludedFolder
-			);
-		});
-	}
-
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+
+		// Migrate single-condition rules and rules without file types from older versions
+		this.settings.rules = this.settings.rules.map(rule => migrateRuleFileTypes(migrateLegacyRule(rule)));
 	}
 
 	async saveSettings() {
@@ -471,6 +882,43 @@ export default class SmartFileSorterPlugin extends Plugin {
 		// Update file sorter verbose logging
 		if (this.fileSorter) {
 			this.fileSorter.setVerboseLogging(this.settings.verboseLogging);
+			this.fileSorter.setSanitizeOptions(this.getSanitizeOptions());
+			this.fileSorter.setConflictStrategy(this.settings.conflictStrategy);
+			this.fileSorter.setEvaluationStrategy(this.settings.ruleEvaluation);
+			this.fileSorter.setMoveAttachments(this.settings.moveAttachments);
+			this.fileSorter.setRollbackThreshold(this.getRollbackThreshold());
+			this.fileSorter.setHonorOptOut(this.settings.honorSortOptOut);
+		}
+
+		if (this.loopDetector) {
+			this.loopDetector.setLimits(this.settings.loopMoveLimit, this.settings.loopWindow * 1000);
 		}
+
+		if (this.scheduler) {
+			this.scheduler.setOptions(this.getAutoSortOptions());
+			this.scheduler.setVerboseLogging(this.settings.verboseLogging);
+		}
+	}
+
+	private getAutoSortOptions(): AutoSortOptions {
+		return {
+			quietPeriod: Math.max(0, this.settings.autoSortDelay) * 1000,
+			waitUntilInactive: this.settings.autoSortWhenInactive,
+			skipUntitled: this.settings.skipUntitledNotes,
+			skipEmpty: this.settings.skipEmptyNotes,
+			requiredProperty: this.settings.autoSortRequiredProperty
+		};
+	}
+
+	private getRollbackThreshold(): number | null {
+		return this.settings.atomicBatches ? Math.max(1, this.settings.batchErrorThreshold) : null;
+	}
+
+	private getSanitizeOptions(): SanitizeOptions {
+		return {
+			replacement: this.settings.pathReplacementChar,
+			maxSegmentLength: this.settings.maxFolderNameLength,
+			reservedNames: this.settings.reservedNameHandling
+		};
 	}
 }
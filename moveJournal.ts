@@ -0,0 +1,126 @@
+import SmartFileSorterPlugin from './main';
+import { BatchKind, FileMove, MoveOperation } from './types';
+
+/**
+ * A group of journal entries made by one command or auto-sort
+ */
+export interface MoveBatch {
+	id: string;
+	kind: BatchKind;
+	timestamp: number;
+	moves: MoveOperation[];
+}
+
+/**
+ * Keeps every move, and which ones can still be undone. Entries live in the
+ * plugin data, so the journal survives reloads.
+ */
+export class MoveJournal {
+	private plugin: SmartFileSorterPlugin;
+	private listeners = new Set<() => void>();
+
+	constructor(plugin: SmartFileSorterPlugin) {
+		this.plugin = plugin;
+	}
+
+	/**
+	 * Call back whenever entries are added or undone. Returns a function that unsubscribes.
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	/**
+	 * Record moves as one batch. Returns the batch id, or null when there was nothing to record.
+	 */
+	async record(kind: BatchKind, moves: FileMove[]): Promise<string | null> {
+		if (moves.length === 0) {
+			return null;
+		}
+
+		const batchId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+		let entries = [...this.getEntries(), ...moves.map(move => ({ ...move, batchId, batchKind: kind }))];
+
+		const maxEntries = this.plugin.settings.maxJournalEntries;
+		if (maxEntries > 0 && entries.length > maxEntries) {
+			entries = entries.slice(-maxEntries);
+		}
+
+		this.plugin.settings.moveJournal = entries;
+		await this.plugin.saveSettings();
+		this.notifyListeners();
+		return batchId;
+	}
+
+	/**
+	 * All entries including undone ones, oldest first
+	 */
+	getMoves(): MoveOperation[] {
+		return this.getEntries();
+	}
+
+	/**
+	 * The most recent note move together with the attachments moved with it
+	 */
+	getLastMove(): MoveOperation[] {
+		const entries = this.getUndoableEntries();
+		for (let i = entries.length - 1; i >= 0; i--) {
+			if (!entries[i].attachment) {
+				return entries.slice(i).filter(entry => entry.batchId === entries[i].batchId);
+			}
+		}
+		return [];
+	}
+
+	/**
+	 * Batches of moves that can be undone, newest first
+	 */
+	getBatches(): MoveBatch[] {
+		const batches = new Map<string, MoveBatch>();
+		for (const entry of this.getUndoableEntries()) {
+			const batch = batches.get(entry.batchId);
+			if (batch) {
+				batch.moves.push(entry);
+			} else {
+				batches.set(entry.batchId, {
+					id: entry.batchId,
+					kind: entry.batchKind,
+					timestamp: entry.timestamp,
+					moves: [entry]
+				});
+			}
+		}
+		return Array.from(batches.values()).reverse();
+	}
+
+	getMovesSince(timestamp: number): MoveOperation[] {
+		return this.getUndoableEntries().filter(entry => entry.timestamp >= timestamp);
+	}
+
+	/**
+	 * Mark entries as undone. They stay in the history and its exports.
+	 */
+	async markUndone(moves: MoveOperation[]): Promise<void> {
+		const undone = new Set(moves);
+		const undoneAt = Date.now();
+		this.plugin.settings.moveJournal = this.getEntries()
+			.map(entry => undone.has(entry) ? { ...entry, undoneAt } : entry);
+		await this.plugin.saveSettings();
+		this.notifyListeners();
+	}
+
+	private notifyListeners(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	private getEntries(): MoveOperation[] {
+		return this.plugin.settings.moveJournal;
+	}
+
+	private getUndoableEntries(): MoveOperation[] {
+		return this.getEntries().filter(entry => entry.undoneAt === undefined);
+	}
+}
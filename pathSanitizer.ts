@@ -0,0 +1,95 @@
+import { normalizePath } from 'obsidian';
+
+export interface SanitizeOptions {
+	// Replaces characters that are invalid in folder names
+	replacement: string;
+	maxSegmentLength: number;
+	// 'suffix' appends the replacement to reserved names such as CON, 'reject' refuses them
+	reservedNames: 'suffix' | 'reject';
+}
+
+export const DEFAULT_SANITIZE_OPTIONS: SanitizeOptions = {
+	replacement: '_',
+	maxSegmentLength: 100,
+	reservedNames: 'suffix'
+};
+
+/**
+ * Thrown when a destination built from note metadata is unsafe to use
+ */
+export class UnsafeDestinationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'UnsafeDestinationError';
+	}
+}
+
+// Invalid on Windows or Android, or breaks Obsidian links
+const INVALID_CHARS = /[\\/:*?"<>|#^[\]\x00-\x1f]/g;
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+
+/**
+ * Make a single value from note metadata safe to use as one folder name.
+ * Returns an empty string when nothing usable remains.
+ */
+export function sanitizeSegment(value: string, options: SanitizeOptions): string {
+	const replacement = options.replacement.replace(INVALID_CHARS, '');
+
+	let segment = value
+		.replace(INVALID_CHARS, replacement)
+		.trim()
+		.replace(/^\.+/, '')
+		.replace(/[. ]+$/, '');
+
+	if (options.maxSegmentLength > 0 && segment.length > options.maxSegmentLength) {
+		segment = segment.slice(0, options.maxSegmentLength).replace(/[. ]+$/, '');
+	}
+
+	if (RESERVED_NAMES.test(segment)) {
+		if (options.reservedNames === 'reject') {
+			throw new UnsafeDestinationError(`"${segment}" is a reserved folder name`);
+		}
+		segment = `${segment}${replacement || '_'}`;
+	}
+
+	return segment;
+}
+
+/**
+ * Sanitize a value whose '/' separators are meant as folder levels,
+ * such as a nested tag. Each level is sanitized on its own.
+ */
+export function sanitizePathValue(value: string, options: SanitizeOptions): string {
+	return value
+		.split('/')
+		.map(segment => sanitizeSegment(segment, options))
+		.filter(segment => segment.length > 0)
+		.join('/');
+}
+
+/**
+ * The fixed folder a destination template starts with, i.e. everything
+ * before the first folder that contains a placeholder
+ */
+export function getTemplateRoot(template: string): string {
+	const placeholderIndex = template.indexOf('{{');
+	const staticPart = placeholderIndex === -1
+		? template
+		: template.slice(0, template.lastIndexOf('/', placeholderIndex) + 1);
+	return normalizePath(staticPart);
+}
+
+/**
+ * Reject a resolved destination that climbs out of, or lies outside, its root folder
+ */
+export function assertInsideRoot(destination: string, root: string): void {
+	const segments = destination.split('/');
+	if (segments.some(segment => segment === '..' || segment === '.')) {
+		throw new UnsafeDestinationError(`"${destination}" contains relative path segments`);
+	}
+
+	const isVaultRoot = root === '' || root === '/';
+	if (!isVaultRoot && destination !== root && !destination.startsWith(root + '/')) {
+		throw new UnsafeDestinationError(`"${destination}" is outside the rule's folder "${root}"`);
+	}
+}
@@ -0,0 +1,65 @@
+/**
+ * Resolve a placeholder key (and optional format) to its value,
+ * or null when the note has no value for it
+ */
+export type PlaceholderResolver = (key: string, format?: string) => string | null;
+
+export interface TemplateResult {
+	value: string;
+	// Placeholders that had neither a value nor a fallback
+	missing: string[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{([^{}]+)\}\}/g;
+
+const TRANSFORMS: Record<string, (value: string) => string> = {
+	lower: value => value.toLowerCase(),
+	upper: value => value.toUpperCase(),
+	title: value => value.replace(/\S+/g, word =>
+		word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()
+	),
+	slug: value => value
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.replace(/[^\p{L}\p{N}]+/gu, '-')
+		.replace(/^-+|-+$/g, '')
+};
+
+export function hasPlaceholders(template: string): boolean {
+	return /\{\{[^{}]+\}\}/.test(template);
+}
+
+/**
+ * Render a template such as `Clients/{{client|Unassigned|title}}/{{date:YYYY/MM}}`.
+ *
+ * Each placeholder is `{{key[:format][|option]...}}`. Options named after a
+ * transform (lower, upper, title, slug) are applied in order; the first other
+ * option is the fallback used when the key has no value.
+ */
+export function renderTemplate(template: string, resolve: PlaceholderResolver): TemplateResult {
+	const missing: string[] = [];
+
+	const value = template.replace(PLACEHOLDER_PATTERN, (placeholder, inner: string) => {
+		const [head, ...options] = inner.split('|').map(part => part.trim());
+		const colonIndex = head.indexOf(':');
+		const key = colonIndex === -1 ? head : head.slice(0, colonIndex).trim();
+		const format = colonIndex === -1 ? undefined : head.slice(colonIndex + 1).trim() || undefined;
+
+		const transforms = options.filter(option => option in TRANSFORMS);
+		const fallback = options.find(option => !(option in TRANSFORMS));
+
+		let resolved = resolve(key, format);
+		if (resolved === null || resolved === '') {
+			if (fallback === undefined) {
+				missing.push(placeholder);
+				return '';
+			}
+			resolved = fallback;
+		}
+
+		return transforms.reduce((result, name) => TRANSFORMS[name](result), resolved);
+	});
+
+	return { value, missing };
+}
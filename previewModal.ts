@@ -0,0 +1,188 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { PlannedChange } from './fileSorter';
+import { describeAction } from './actions';
+
+/**
+ * Shows what a bulk sort would change, grouped by rule and destination,
+ * and applies only the changes left ticked
+ */
+export class SortPreviewModal extends Modal {
+	private title: string;
+	private plan: PlannedChange[];
+	private selected: Set<PlannedChange>;
+	private onApply: (changes: PlannedChange[]) => void;
+	private applyButton: ButtonComponent | null = null;
+	private checkboxes = new Map<PlannedChange, HTMLInputElement>();
+
+	constructor(
+		app: App,
+		title: string,
+		plan: PlannedChange[],
+		onApply: (changes: PlannedChange[]) => void
+	) {
+		super(app);
+		this.title = title;
+		this.plan = plan;
+		this.onApply = onApply;
+		// Changes that cannot be applied start unticked
+		this.selected = new Set(plan.filter(change => !change.error));
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('smart-file-sorter-preview-modal');
+
+		contentEl.createEl('h2', { text: this.title });
+
+		// Chained rules can plan several changes for one file
+		const files = new Set(this.plan.map(change => change.file)).size;
+		const conflicts = this.plan.filter(change => change.conflict).length;
+		const errors = this.plan.filter(change => change.error).length;
+		contentEl.createEl('p', {
+			text: `${files} files would change. ` +
+				`${conflicts} conflict with an existing file or another change, ${errors} cannot be sorted.`,
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Select all')
+					.onClick(() => this.setSelected(this.plan, true))
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Select none')
+					.onClick(() => this.setSelected(this.plan, false))
+			);
+
+		const listEl = contentEl.createDiv({ cls: 'smart-file-sorter-preview-list' });
+		for (const [ruleName, changes] of this.groupBy(this.plan, change => change.rule.name)) {
+			listEl.createEl('h3', { text: `${ruleName} (${changes.length})` });
+
+			for (const [destination, group] of this.groupBy(changes, change => this.getDestinationLabel(change))) {
+				this.renderDestinationGroup(listEl, destination, group);
+			}
+		}
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				this.applyButton = btn;
+				btn
+					.setCta()
+					.onClick(() => {
+						const changes = this.plan.filter(change => this.selected.has(change));
+						this.close();
+						this.onApply(changes);
+					});
+			})
+			.addButton(btn =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close())
+			);
+
+		this.updateApplyButton();
+	}
+
+	private renderDestinationGroup(container: HTMLElement, destination: string, changes: PlannedChange[]): void {
+		const groupEl = container.createDiv({ cls: 'smart-file-sorter-preview-group' });
+
+		const headerEl = groupEl.createEl('label', { cls: 'smart-file-sorter-preview-destination' });
+		const groupCheckbox = headerEl.createEl('input', { type: 'checkbox' });
+		headerEl.appendText(`${destination} (${changes.length})`);
+
+		const selectable = changes.filter(change => !change.error);
+		groupCheckbox.checked = selectable.length > 0 && selectable.every(change => this.selected.has(change));
+		groupCheckbox.disabled = selectable.length === 0;
+		groupCheckbox.addEventListener('change', () => {
+			this.setSelected(selectable, groupCheckbox.checked);
+		});
+
+		for (const change of changes) {
+			const itemEl = groupEl.createEl('label', { cls: 'smart-file-sorter-preview-item' });
+			const checkbox = itemEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = this.selected.has(change);
+			checkbox.disabled = change.error !== null;
+			this.checkboxes.set(change, checkbox);
+
+			checkbox.addEventListener('change', () => {
+				this.setSelected([change], checkbox.checked);
+			});
+
+			itemEl.createSpan({ text: change.file.path });
+
+			const otherActions = change.actions
+				.filter(action => action.type !== 'move')
+				.map(action => describeAction(action, change.rule));
+			if (otherActions.length > 0) {
+				itemEl.createSpan({ text: otherActions.join(', '), cls: 'setting-item-description' });
+			}
+			if (change.conflict) {
+				itemEl.createSpan({ text: 'conflict', cls: 'smart-file-sorter-preview-flag' });
+			}
+			if (change.error) {
+				itemEl.createSpan({ text: change.error, cls: 'smart-file-sorter-preview-flag' });
+			}
+		}
+	}
+
+	private getDestinationLabel(change: PlannedChange): string {
+		if (change.error) {
+			return 'Cannot be sorted';
+		}
+		if (!change.targetPath) {
+			return 'Stays in place';
+		}
+
+		const slashIndex = change.targetPath.lastIndexOf('/');
+		return slashIndex === -1 ? '/' : change.targetPath.slice(0, slashIndex);
+	}
+
+	private setSelected(changes: PlannedChange[], selected: boolean): void {
+		for (const change of changes) {
+			if (change.error) {
+				continue;
+			}
+			if (selected) {
+				this.selected.add(change);
+			} else {
+				this.selected.delete(change);
+			}
+
+			const checkbox = this.checkboxes.get(change);
+			if (checkbox) {
+				checkbox.checked = selected;
+			}
+		}
+		this.updateApplyButton();
+	}
+
+	private updateApplyButton(): void {
+		this.applyButton?.setButtonText(`Apply ${this.selected.size} changes`);
+		this.applyButton?.setDisabled(this.selected.size === 0);
+	}
+
+	/**
+	 * Group items by key, keeping the order in which keys first appear
+	 */
+	private groupBy(changes: PlannedChange[], getKey: (change: PlannedChange) => string): Map<string, PlannedChange[]> {
+		const groups = new Map<string, PlannedChange[]>();
+		for (const change of changes) {
+			const key = getKey(change);
+			const group = groups.get(key);
+			if (group) {
+				group.push(change);
+			} else {
+				groups.set(key, [change]);
+			}
+		}
+		return groups;
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
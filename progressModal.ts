@@ -0,0 +1,154 @@
+import { App, ButtonComponent, Modal, Setting } from 'obsidian';
+import { SortPhase, SortProgress } from './types';
+
+const PHASE_LABELS: Record<SortPhase, string> = {
+	matching: 'Matching rules',
+	sorting: 'Sorting files'
+};
+
+/**
+ * Format a duration as m:ss, or h:mm:ss from an hour up
+ */
+function formatDuration(ms: number): string {
+	const totalSeconds = Math.round(ms / 1000);
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = String(totalSeconds % 60).padStart(2, '0');
+	return hours > 0
+		? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+		: `${minutes}:${seconds}`;
+}
+
+/**
+ * Shows a bulk sort's progress with live counts and lets the user cancel it.
+ * Closing the modal before the sort finishes also cancels it.
+ */
+export class SortProgressModal extends Modal {
+	private title: string;
+	private controller = new AbortController();
+	private finished = false;
+	private startTime = Date.now();
+	private phaseStartTime = Date.now();
+	private progress: SortProgress | null = null;
+	private timer: number | null = null;
+
+	private phaseEl: HTMLElement | null = null;
+	private progressEl: HTMLProgressElement | null = null;
+	private countsEl: HTMLElement | null = null;
+	private timeEl: HTMLElement | null = null;
+	private cancelButton: ButtonComponent | null = null;
+
+	constructor(app: App, title: string) {
+		super(app);
+		this.title = title;
+	}
+
+	/**
+	 * Aborted when the user cancels
+	 */
+	get signal(): AbortSignal {
+		return this.controller.signal;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.modalEl.addClass('smart-file-sorter-progress-modal');
+
+		contentEl.createEl('h2', { text: this.title });
+
+		this.phaseEl = contentEl.createEl('p');
+		this.progressEl = contentEl.createEl('progress', { cls: 'smart-file-sorter-progress-bar' });
+		this.countsEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+		this.timeEl = contentEl.createEl('p', { cls: 'setting-item-description' });
+
+		new Setting(contentEl)
+			.addButton(btn => {
+				this.cancelButton = btn;
+				btn
+					.setButtonText('Cancel')
+					.setWarning()
+					.onClick(() => this.cancel());
+			});
+
+		this.timer = window.setInterval(() => this.renderTime(), 1000);
+		this.render();
+	}
+
+	update(progress: SortProgress): void {
+		if (progress.phase !== this.progress?.phase) {
+			this.phaseStartTime = Date.now();
+		}
+		this.progress = progress;
+		this.render();
+	}
+
+	/**
+	 * Close the modal once the sort is done, without cancelling it
+	 */
+	finish(): void {
+		this.finished = true;
+		this.close();
+	}
+
+	private cancel(): void {
+		if (this.controller.signal.aborted) {
+			return;
+		}
+		this.controller.abort();
+		this.cancelButton?.setButtonText('Cancelling...').setDisabled(true);
+		this.phaseEl?.setText('Cancelling: waiting for the files being sorted to finish');
+	}
+
+	private render(): void {
+		const progress = this.progress;
+
+		if (!this.controller.signal.aborted) {
+			this.phaseEl?.setText(progress
+				? `${PHASE_LABELS[progress.phase]}: ${progress.current}/${progress.total}`
+				: 'Starting...');
+		}
+
+		if (this.progressEl) {
+			this.progressEl.max = Math.max(progress?.total ?? 1, 1);
+			this.progressEl.value = progress?.current ?? 0;
+		}
+
+		if (progress) {
+			const { result } = progress;
+			this.countsEl?.setText(
+				`Moved: ${result.moved} · Skipped: ${result.skipped} · ` +
+				`Conflicts: ${result.conflicts} · Errors: ${result.errors}`
+			);
+		}
+
+		this.renderTime();
+	}
+
+	private renderTime(): void {
+		const now = Date.now();
+		let text = `Elapsed: ${formatDuration(now - this.startTime)}`;
+
+		// Estimate from the pace of the current phase
+		const progress = this.progress;
+		if (progress && progress.current > 0 && progress.current < progress.total) {
+			const perFile = (now - this.phaseStartTime) / progress.current;
+			text += ` · About ${formatDuration(perFile * (progress.total - progress.current))} left`;
+		}
+
+		this.timeEl?.setText(text);
+	}
+
+	onClose(): void {
+		if (!this.finished) {
+			this.cancel();
+		}
+		if (this.timer !== null) {
+			window.clearInterval(this.timer);
+			this.timer = null;
+		}
+
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,47 @@
+import { App, Modal, Setting } from 'obsidian';
+import { SortResult } from './types';
+
+/**
+ * Lists the files a bulk sort failed on, and whether the batch was rolled back
+ */
+export class SortFailureModal extends Modal {
+	private title: string;
+	private result: SortResult;
+
+	constructor(app: App, title: string, result: SortResult) {
+		super(app);
+		this.title = title;
+		this.result = result;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: this.title });
+
+		const summary = this.result.rolledBack > 0
+			? `The sort stopped after ${this.result.errors} errors and ${this.result.rolledBack} moves were rolled back to their original paths.`
+			: `${this.result.failures.length} files could not be sorted.`;
+		contentEl.createEl('p', { text: summary });
+
+		const listEl = contentEl.createEl('ul', { cls: 'smart-file-sorter-failure-list' });
+		for (const failure of this.result.failures) {
+			const itemEl = listEl.createEl('li');
+			itemEl.createEl('strong', { text: failure.path });
+			itemEl.appendText(`: ${failure.error}`);
+		}
+
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Close')
+					.onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}
@@ -1,6 +1,162 @@
-import { App, PluginSettingTab, Setting, Modal, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Modal, Notice, TFile } from 'obsidian';
 import SmartFileSorterPlugin from './main';
-import { SortingRule } from './types';
+import {
+	ConditionGroup,
+	ConflictStrategy,
+	ContentCondition,
+	ContentTarget,
+	FileAttribute,
+	FileCondition,
+	FileType,
+	LinkCondition,
+	LinkRelation,
+	ListMatchMode,
+	MatchType,
+	PropertyCondition,
+	RuleAction,
+	RuleActionType,
+	RuleCondition,
+	RuleEvaluationStrategy,
+	SortingRule,
+	TagCondition,
+	TextMatchType
+} from './types';
+import {
+	createConditionGroup,
+	createContentCondition,
+	createFileCondition,
+	createLinkCondition,
+	createPropertyCondition,
+	createTagCondition,
+	describeCondition,
+	fileAttributeMatchTypes,
+	isComparisonMatchType,
+	isTextMatchType,
+	linkRelationMatchTypes,
+	matchTypeNeedsValue,
+	validateCondition
+} from './conditions';
+import { getRuleFileTypes } from './fileTypes';
+import { createAction, describeAction, getRuleActions, validateAction } from './actions';
+
+const TEXT_MATCH_OPTIONS: Record<string, string> = {
+	equals: 'Equals',
+	contains: 'Contains',
+	startsWith: 'Starts with',
+	endsWith: 'Ends with',
+	regex: 'Regular expression',
+	glob: 'Glob pattern'
+};
+
+const TAG_HIERARCHY_OPTIONS: Record<string, string> = {
+	tagOrDescendant: 'Tag or any child',
+	tagChild: 'Direct child of tag',
+	tagDepth: 'Tag at depth'
+};
+
+const LIST_MODE_OPTIONS: Record<string, string> = {
+	'': 'Single value',
+	any: 'Any of',
+	all: 'All of',
+	none: 'None of',
+	exact: 'Exactly'
+};
+
+const COMPARISON_MATCH_OPTIONS: Record<string, string> = {
+	greaterThan: 'Greater than',
+	greaterOrEqual: 'Greater than or equal',
+	lessThan: 'Less than',
+	lessOrEqual: 'Less than or equal',
+	between: 'Between',
+	before: 'Before date',
+	after: 'After date',
+	withinLast: 'Within the last',
+	withinNext: 'Within the next',
+	isTrue: 'Is true',
+	isFalse: 'Is false',
+	isEmpty: 'Is empty',
+	exists: 'Exists',
+	missing: 'Is missing'
+};
+
+const CONDITION_KIND_OPTIONS: Record<string, string> = {
+	property: 'Property',
+	tag: 'Tag',
+	file: 'File',
+	content: 'Content',
+	link: 'Link graph'
+};
+
+const LINK_RELATION_OPTIONS: Record<string, string> = {
+	linkedFrom: 'Is linked from note',
+	linksToFolder: 'Links to a note in folder',
+	backlinks: 'Number of backlinks',
+	orphaned: 'Is orphaned'
+};
+
+const CONTENT_TARGET_OPTIONS: Record<string, string> = {
+	heading: 'Heading',
+	link: 'Links to',
+	embed: 'Embeds',
+	section: 'Section type',
+	body: 'Body text'
+};
+
+const CONFLICT_STRATEGY_OPTIONS: Record<string, string> = {
+	skip: 'Skip the move',
+	suffix: 'Keep both (add a number)',
+	timestamp: 'Keep both (add a timestamp)',
+	replace: 'Replace the existing file',
+	ask: 'Ask me'
+};
+
+const RULE_EVALUATION_OPTIONS: Record<RuleEvaluationStrategy, string> = {
+	first: 'First match in list order',
+	priority: 'Highest priority',
+	specific: 'Most specific (most conditions satisfied)'
+};
+
+const ACTION_TYPE_OPTIONS: Record<RuleActionType, string> = {
+	move: 'Move to destination',
+	copy: 'Copy to folder',
+	addTag: 'Add tag',
+	removeTag: 'Remove tag',
+	setProperty: 'Set property',
+	removeProperty: 'Remove property',
+	trash: 'Move to trash'
+};
+
+const FILE_TYPE_OPTIONS: Record<FileType, string> = {
+	markdown: 'Notes',
+	canvas: 'Canvas',
+	excalidraw: 'Excalidraw',
+	pdf: 'PDF',
+	image: 'Images',
+	audio: 'Audio',
+	video: 'Video',
+	other: 'Other files'
+};
+
+const FILE_ATTRIBUTE_OPTIONS: Record<string, string> = {
+	name: 'Name',
+	folder: 'Folder',
+	extension: 'Extension',
+	created: 'Created',
+	modified: 'Modified',
+	size: 'Size'
+};
+
+/**
+ * Build dropdown options for a subset of match types
+ */
+function matchTypeOptions(matchTypes: MatchType[]): Record<string, string> {
+	const labels: Record<string, string> = { ...TEXT_MATCH_OPTIONS, ...COMPARISON_MATCH_OPTIONS };
+	const options: Record<string, string> = {};
+	for (const matchType of matchTypes) {
+		options[matchType] = labels[matchType];
+	}
+	return options;
+}
 
 export class SmartFileSorterSettingTab extends PluginSettingTab {
 	plugin: SmartFileSorterPlugin;
@@ -24,6 +180,12 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 
 		// Excluded Folders Section
 		this.addExcludedFoldersSection(containerEl);
+
+		// Loop Detection Section
+		this.addLoopDetectionSection(containerEl);
+
+		// Folder Names Section
+		this.addFolderNamesSection(containerEl);
 	}
 
 	private addGeneralSettings(containerEl: HTMLElement): void {
@@ -65,6 +227,98 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('Sort on rename')
+			.setDesc('Automatically sort files when you rename or move them, e.g. to match a file name rule')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.sortOnRename)
+					.onChange(async value => {
+						this.plugin.settings.sortOnRename = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Inbox folders')
+			.setDesc('Files created in or moved into these folders are always sorted while automatic sorting is enabled, even with the options above turned off (one per line, globs allowed)')
+			.addTextArea(text => {
+				text
+					.setPlaceholder('Inbox\nDownloads')
+					.setValue(this.plugin.settings.inboxFolders.join('\n'))
+					.onChange(async value => {
+						this.plugin.settings.inboxFolders = value
+							.split('\n')
+							.map(f => f.trim())
+							.filter(f => f.length > 0);
+						await this.plugin.saveSettings();
+					});
+				text.inputEl.rows = 3;
+			});
+
+		new Setting(containerEl)
+			.setName('Auto-sort delay')
+			.setDesc('Seconds a file must go unchanged before it is sorted. Each change restarts the wait, so notes do not move while you type.')
+			.addText(text =>
+				text
+					.setPlaceholder('2')
+					.setValue(String(this.plugin.settings.autoSortDelay))
+					.onChange(async value => {
+						const delay = parseFloat(value);
+						this.plugin.settings.autoSortDelay = isNaN(delay) || delay < 0 ? 0 : delay;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Wait until the note is no longer active')
+			.setDesc('Only sort a note after you switch to another file')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.autoSortWhenInactive)
+					.onChange(async value => {
+						this.plugin.settings.autoSortWhenInactive = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Skip untitled notes')
+			.setDesc('Leave notes named "Untitled" where they are until they are renamed and changed again')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.skipUntitledNotes)
+					.onChange(async value => {
+						this.plugin.settings.skipUntitledNotes = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Skip empty notes')
+			.setDesc('Leave empty files where they are until they have content')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.skipEmptyNotes)
+					.onChange(async value => {
+						this.plugin.settings.skipEmptyNotes = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Wait for property')
+			.setDesc('Only auto-sort notes once they have this property, e.g. one a template fills in last. Leave empty to sort right away.')
+			.addText(text =>
+				text
+					.setPlaceholder('status')
+					.setValue(this.plugin.settings.autoSortRequiredProperty)
+					.onChange(async value => {
+						this.plugin.settings.autoSortRequiredProperty = value.trim();
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName('Show notifications')
 			.setDesc('Display notifications when files are moved')
@@ -77,6 +331,83 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName('When the destination already has the file')
+			.setDesc('What to do when a file with the same name exists at the destination. Replaced files are moved to the .trash folder, so undo can restore them. Rules can override this.')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(CONFLICT_STRATEGY_OPTIONS)
+					.setValue(this.plugin.settings.conflictStrategy)
+					.onChange(async value => {
+						this.plugin.settings.conflictStrategy = value as ConflictStrategy;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Preview bulk sorts')
+			.setDesc('Show what sorting the vault or a folder would change, and choose which changes to apply')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.previewBulkSorts)
+					.onChange(async value => {
+						this.plugin.settings.previewBulkSorts = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Atomic bulk sorts')
+			.setDesc('If a vault or folder sort hits the error limit below, stop and move every file it already moved back to where it was. Other actions, such as tag or property changes, are not undone.')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.atomicBatches)
+					.onChange(async value => {
+						this.plugin.settings.atomicBatches = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Error limit for atomic sorts')
+			.setDesc('Number of errors that rolls back an atomic bulk sort')
+			.addText(text =>
+				text
+					.setPlaceholder('1')
+					.setValue(String(this.plugin.settings.batchErrorThreshold))
+					.onChange(async value => {
+						const threshold = parseInt(value, 10);
+						this.plugin.settings.batchErrorThreshold = isNaN(threshold) || threshold < 1 ? 1 : threshold;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Move attachments with notes')
+			.setDesc('Move images, PDFs and other files embedded in a note along with it, following Obsidian\'s attachment folder setting. Attachments that other notes also use stay where they are.')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.moveAttachments)
+					.onChange(async value => {
+						this.plugin.settings.moveAttachments = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Move history size')
+			.setDesc('How many moves to keep for undo (0 for no limit). The history is saved with the plugin data.')
+			.addText(text =>
+				text
+					.setPlaceholder('1000')
+					.setValue(String(this.plugin.settings.maxJournalEntries))
+					.onChange(async value => {
+						const size = parseInt(value, 10);
+						this.plugin.settings.maxJournalEntries = isNaN(size) || size < 0 ? 0 : size;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName('Verbose logging')
 			.setDesc('Enable detailed console logging for debugging')
@@ -98,9 +429,22 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 			cls: 'setting-item-description'
 		});
 		rulesDesc.setText(
-			'Define rules to automatically organize files based on their properties or tags. Rules are evaluated in order from top to bottom.'
+			'Define rules to automatically organize files based on their properties or tags. Each file is sorted by one matching rule, chosen as set below, unless that rule continues evaluating.'
 		);
 
+		new Setting(containerEl)
+			.setName('Rule evaluation')
+			.setDesc('Which rule sorts a file when several match. Ties go to the rule higher in the list.')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(RULE_EVALUATION_OPTIONS)
+					.setValue(this.plugin.settings.ruleEvaluation)
+					.onChange(async value => {
+						this.plugin.settings.ruleEvaluation = value as RuleEvaluationStrategy;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// Display existing rules
 		if (this.plugin.settings.rules.length === 0) {
 			containerEl.createEl('p', {
@@ -139,11 +483,8 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 							enabled: true,
 							destinationFolder: '',
 							createSubfolders: false,
-							propertyName: 'topic',
-							propertyValue: '',
-							matchType: 'equals',
-							caseSensitive: false,
-							useTags: false
+							fileTypes: ['markdown'],
+							conditions: createConditionGroup('and', [createPropertyCondition()])
 						};
 
 						new RuleEditorModal(
@@ -167,11 +508,14 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 	): void {
 		const ruleContainer = containerEl.createDiv({ cls: 'smart-file-sorter-rule' });
 
-		const matchInfo = rule.useTags
-			? `Tag: ${rule.tagValue || '(not set)'}`
-			: `${rule.propertyName}: ${rule.propertyValue || '(not set)'}`;
-
-		const ruleDesc = `${matchInfo} → ${rule.destinationFolder || '(not set)'}`;
+		const actions = getRuleActions(rule).map(action => describeAction(action, rule)).join(', ');
+		const sources = rule.sourceFolders?.length ? ` (from ${rule.sourceFolders.join(', ')})` : '';
+		const flags = [
+			rule.priority ? `priority ${rule.priority}` : '',
+			rule.continueEvaluating ? 'then continue' : ''
+		].filter(Boolean);
+		const ruleDesc = `${describeCondition(rule.conditions)}${sources} → ${actions}` +
+			(flags.length > 0 ? ` · ${flags.join(' · ')}` : '');
 
 		new Setting(ruleContainer)
 			.setName(rule.name)
@@ -248,14 +592,14 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 	}
 
 	private addExcludedFoldersSection(containerEl: HTMLElement): void {
-		containerEl.createEl('h3', { text: 'Excluded folders' });
+		containerEl.createEl('h3', { text: 'Excluded files' });
 
 		new Setting(containerEl)
-			.setName('Excluded folders')
-			.setDesc('Files in these folders will not be automatically sorted (one per line)')
+			.setName('Excluded paths')
+			.setDesc('Files matching these folders or globs are not sorted automatically or by "Sort all files in vault" (one per line). A glob without a slash, such as *.excalidraw.md, matches names in any folder. Start a line with ! to bring back files an earlier line excluded.')
 			.addTextArea(text => {
 				text
-					.setPlaceholder('Archive\nTemplates\n.trash')
+					.setPlaceholder('Archive\n**/_templates/**\n!Archive/Current')
 					.setValue(this.plugin.settings.excludedFolders.join('\n'))
 					.onChange(async value => {
 						this.plugin.settings.excludedFolders = value
@@ -267,6 +611,144 @@ export class SmartFileSorterSettingTab extends PluginSettingTab {
 				text.inputEl.rows = 4;
 				text.inputEl.cols = 30;
 			});
+
+		new Setting(containerEl)
+			.setName('Respect per-note opt-out')
+			.setDesc('Never sort notes with sort: false or pinned: true in their properties, whichever rules match')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.plugin.settings.honorSortOptOut)
+					.onChange(async value => {
+						this.plugin.settings.honorSortOptOut = value;
+						await this.plugin.saveSettings();
+					})
+			);
+	}
+
+	private addLoopDetectionSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Loop detection' });
+
+		containerEl.createEl('p', {
+			text: 'Rules that send a file to each other\'s destinations can move it back and forth. Auto-sort stops moving a file that moves too often and quarantines it until you release it.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Move limit')
+			.setDesc('Quarantine a file that auto-sort moves more than this many times within the window')
+			.addText(text =>
+				text
+					.setPlaceholder('3')
+					.setValue(String(this.plugin.settings.loopMoveLimit))
+					.onChange(async value => {
+						const limit = parseInt(value, 10);
+						this.plugin.settings.loopMoveLimit = isNaN(limit) || limit < 1 ? 1 : limit;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Window')
+			.setDesc('Seconds over which moves are counted')
+			.addText(text =>
+				text
+					.setPlaceholder('60')
+					.setValue(String(this.plugin.settings.loopWindow))
+					.onChange(async value => {
+						const seconds = parseInt(value, 10);
+						this.plugin.settings.loopWindow = isNaN(seconds) || seconds < 1 ? 1 : seconds;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		containerEl.createEl('h4', { text: 'Quarantined files' });
+
+		const quarantined = this.plugin.settings.quarantinedFiles;
+		if (quarantined.length === 0) {
+			containerEl.createEl('p', {
+				text: 'No files are quarantined.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		for (const entry of quarantined) {
+			new Setting(containerEl)
+				.setName(entry.path)
+				.setDesc(
+					`Rules: ${entry.rules.join(', ')} · Folders: ${entry.folders.join(', ')} · ` +
+					new Date(entry.timestamp).toLocaleString()
+				)
+				.addButton(btn =>
+					btn
+						.setButtonText('Open')
+						.onClick(async () => {
+							const file = this.app.vault.getAbstractFileByPath(entry.path);
+							if (file instanceof TFile) {
+								await this.app.workspace.getLeaf(false).openFile(file);
+							}
+						})
+				)
+				.addButton(btn =>
+					btn
+						.setButtonText('Release')
+						.setTooltip('Let auto-sort move this file again')
+						.onClick(async () => {
+							await this.plugin.releaseFromQuarantine(entry.path);
+							this.display();
+						})
+				);
+		}
+	}
+
+	private addFolderNamesSection(containerEl: HTMLElement): void {
+		containerEl.createEl('h3', { text: 'Folder names' });
+
+		containerEl.createEl('p', {
+			text: 'Folder names built from properties, tags and placeholders are cleaned up so they are valid on every platform and cannot leave the rule\'s destination folder.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(containerEl)
+			.setName('Replacement character')
+			.setDesc('Replaces characters that are not allowed in folder names, such as / : ? * (may be empty)')
+			.addText(text =>
+				text
+					.setPlaceholder('_')
+					.setValue(this.plugin.settings.pathReplacementChar)
+					.onChange(async value => {
+						this.plugin.settings.pathReplacementChar = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Maximum folder name length')
+			.setDesc('Longer folder names are shortened (0 for no limit)')
+			.addText(text =>
+				text
+					.setPlaceholder('100')
+					.setValue(String(this.plugin.settings.maxFolderNameLength))
+					.onChange(async value => {
+						const length = parseInt(value, 10);
+						this.plugin.settings.maxFolderNameLength = isNaN(length) || length < 0 ? 0 : length;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName('Reserved names')
+			.setDesc('What to do with names reserved by Windows, such as CON, NUL or COM1')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption('suffix', 'Append the replacement character')
+					.addOption('reject', 'Do not move the file')
+					.setValue(this.plugin.settings.reservedNameHandling)
+					.onChange(async value => {
+						this.plugin.settings.reservedNameHandling = value as 'suffix' | 'reject';
+						await this.plugin.saveSettings();
+					})
+			);
 	}
 }
 
@@ -286,8 +768,8 @@ class RuleEditorModal extends Modal {
 		this.rule = rule;
 		this.onSave = onSave;
 		this.onDelete = onDelete;
-		// Create a copy to edit
-		this.tempRule = { ...rule };
+		// Create a deep copy to edit, so nested conditions are not shared
+		this.tempRule = JSON.parse(JSON.stringify(rule));
 	}
 
 	onOpen(): void {
@@ -309,31 +791,68 @@ class RuleEditorModal extends Modal {
 					})
 			);
 
-		// Match Type Selector
 		new Setting(contentEl)
-			.setName('Match by')
-			.setDesc('Choose whether to match by property value or tag')
-			.addDropdown(dropdown =>
-				dropdown
-					.addOption('property', 'Property value')
-					.addOption('tag', 'Tag')
-					.setValue(this.tempRule.useTags ? 'tag' : 'property')
+			.setName('Priority')
+			.setDesc('Higher numbers win when rule evaluation is set to highest priority')
+			.addText(text =>
+				text
+					.setPlaceholder('0')
+					.setValue(this.tempRule.priority ? String(this.tempRule.priority) : '')
 					.onChange(value => {
-						this.tempRule.useTags = value === 'tag';
-						this.refreshMatchFields(contentEl);
+						const priority = parseInt(value, 10);
+						this.tempRule.priority = isNaN(priority) ? undefined : priority;
 					})
 			);
 
-		// Container for dynamic match fields
-		const matchFieldsContainer = contentEl.createDiv({ cls: 'match-fields-container' });
-		this.renderMatchFields(matchFieldsContainer);
+		new Setting(contentEl)
+			.setName('Continue evaluating')
+			.setDesc('After this rule runs, keep looking for the next matching rule, e.g. to tag files here and move them with a later rule')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.tempRule.continueEvaluating ?? false)
+					.onChange(value => {
+						this.tempRule.continueEvaluating = value;
+					})
+			);
+
+		this.renderFileTypes(contentEl);
+		this.renderSourceFolders(contentEl);
+
+		// Conditions
+		contentEl.createEl('h3', { text: 'Conditions' });
+
+		const conditionsContainer = contentEl.createDiv({ cls: 'match-fields-container' });
+		this.renderConditions(conditionsContainer);
+
+		// Actions
+		contentEl.createEl('h3', { text: 'Actions' });
+		contentEl.createEl('p', {
+			text: 'Run in order when the rule matches. Destination settings below apply to the move action.',
+			cls: 'setting-item-description'
+		});
+
+		const actionsContainer = contentEl.createDiv({ cls: 'smart-file-sorter-actions' });
+		this.renderActions(actionsContainer);
 
 		// Destination Settings
 		contentEl.createEl('h3', { text: 'Destination settings' });
 
+		new Setting(contentEl)
+			.setName('Destination')
+			.setDesc('Move to a fixed folder, or into the same folder as the hub note found by the link graph conditions')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOption('folder', 'Destination folder')
+					.addOption('hub', 'Same folder as linked hub note')
+					.setValue(this.tempRule.destinationType ?? 'folder')
+					.onChange(value => {
+						this.tempRule.destinationType = value as SortingRule['destinationType'];
+					})
+			);
+
 		new Setting(contentEl)
 			.setName('Destination folder')
-			.setDesc('Where matching files should be moved (e.g., Topics/Soccer)')
+			.setDesc('Where matching files should be moved (e.g., Topics/Soccer). Supports placeholders such as {{project}}, {{tag}}, {{date:YYYY/MM}} and {{client|Unassigned}}. For hub destinations, used when no hub note is found; leave empty to skip those files.')
 			.addText(text =>
 				text
 					.setPlaceholder('Topics/Soccer')
@@ -343,6 +862,52 @@ class RuleEditorModal extends Modal {
 					})
 			);
 
+		new Setting(contentEl)
+			.setName('File name template')
+			.setDesc('Optional. Rename files when they move, using the same placeholders as the destination folder. The extension is kept.')
+			.addText(text =>
+				text
+					.setPlaceholder('{{date:YYYY-MM-DD}} {{title}}')
+					.setValue(this.tempRule.filenameTemplate || '')
+					.onChange(value => {
+						this.tempRule.filenameTemplate = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName('Keep old name as alias')
+			.setDesc('Add the previous file name to the note\'s aliases after renaming')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.tempRule.addOldNameAsAlias ?? false)
+					.onChange(value => {
+						this.tempRule.addOldNameAsAlias = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName('When the destination already has the file')
+			.setDesc('Overrides the global setting for this rule')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions({ '': 'Use global setting', ...CONFLICT_STRATEGY_OPTIONS })
+					.setValue(this.tempRule.conflictStrategy ?? '')
+					.onChange(value => {
+						this.tempRule.conflictStrategy = value ? value as ConflictStrategy : undefined;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName('Mirror nested tag path')
+			.setDesc('Append the matched tag\'s path below the rule\'s tag as subfolders, e.g. #area/health/fitness → Areas/Health/Fitness')
+			.addToggle(toggle =>
+				toggle
+					.setValue(this.tempRule.mirrorTagPath ?? false)
+					.onChange(value => {
+						this.tempRule.mirrorTagPath = value;
+					})
+			);
+
 		new Setting(contentEl)
 			.setName('Create subfolders')
 			.setDesc('Organize files into subfolders based on a property value')
@@ -377,16 +942,31 @@ class RuleEditorModal extends Modal {
 							new Notice('Please enter a rule name');
 							return;
 						}
-						if (!this.tempRule.destinationFolder.trim()) {
+						const actions = getRuleActions(this.tempRule);
+						if (actions.length === 0) {
+							new Notice('Please add at least one action');
+							return;
+						}
+						if (
+							actions.some(action => action.type === 'move') &&
+							this.tempRule.destinationType !== 'hub' &&
+							!this.tempRule.destinationFolder.trim()
+						) {
 							new Notice('Please enter a destination folder');
 							return;
 						}
-						if (this.tempRule.useTags && !this.tempRule.tagValue?.trim()) {
-							new Notice('Please enter a tag value');
+						const actionError = actions.map(validateAction).find(error => error !== null);
+						if (actionError) {
+							new Notice(actionError);
 							return;
 						}
-						if (!this.tempRule.useTags && !this.tempRule.propertyValue.trim()) {
-							new Notice('Please enter a property value');
+						if (this.tempRule.fileTypes && this.tempRule.fileTypes.length === 0) {
+							new Notice('Select at least one file type');
+							return;
+						}
+						const conditionError = validateCondition(this.tempRule.conditions);
+						if (conditionError) {
+							new Notice(conditionError);
 							return;
 						}
 
@@ -404,76 +984,605 @@ class RuleEditorModal extends Modal {
 			);
 	}
 
-	private renderMatchFields(container: HTMLElement): void {
+	/**
+	 * Render one checkbox per file type the rule can apply to
+	 */
+	private renderFileTypes(containerEl: HTMLElement): void {
+		const setting = new Setting(containerEl)
+			.setName('Applies to file types')
+			.setDesc('Property, tag, content and link conditions only match notes. Use file conditions such as extension, name, size and dates for other files.');
+		setting.controlEl.addClass('smart-file-sorter-file-types');
+
+		const selected = new Set(getRuleFileTypes(this.tempRule));
+
+		for (const [type, label] of Object.entries(FILE_TYPE_OPTIONS)) {
+			const labelEl = setting.controlEl.createEl('label');
+			const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+			checkbox.checked = selected.has(type as FileType);
+			labelEl.appendText(label);
+
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					selected.add(type as FileType);
+				} else {
+					selected.delete(type as FileType);
+				}
+				this.tempRule.fileTypes = Object.keys(FILE_TYPE_OPTIONS)
+					.filter(key => selected.has(key as FileType)) as FileType[];
+			});
+		}
+	}
+
+	/**
+	 * Render the folders the rule sorts from and the ones it leaves alone
+	 */
+	private renderSourceFolders(containerEl: HTMLElement): void {
+		const fields: Array<{
+			name: string;
+			desc: string;
+			placeholder: string;
+			key: 'sourceFolders' | 'excludedSourceFolders';
+		}> = [
+			{
+				name: 'Only sort files from',
+				desc: 'Folders or globs such as Projects/*, one per line. Subfolders are included and / is the vault root. Leave empty to sort from anywhere.',
+				placeholder: 'Inbox\n/',
+				key: 'sourceFolders'
+			},
+			{
+				name: 'Never sort files from',
+				desc: 'Files in these folders are left alone by this rule, even when they are inside an included folder',
+				placeholder: 'Projects/**/Meetings',
+				key: 'excludedSourceFolders'
+			}
+		];
+
+		for (const field of fields) {
+			new Setting(containerEl)
+				.setName(field.name)
+				.setDesc(field.desc)
+				.addTextArea(text => {
+					text
+						.setPlaceholder(field.placeholder)
+						.setValue((this.tempRule[field.key] ?? []).join('\n'))
+						.onChange(value => {
+							const folders = value
+								.split('\n')
+								.map(folder => folder.trim())
+								.filter(folder => folder.length > 0);
+							this.tempRule[field.key] = folders.length > 0 ? folders : undefined;
+						});
+					text.inputEl.rows = 3;
+				});
+		}
+	}
+
+	private renderActions(container: HTMLElement): void {
 		container.empty();
 
-		if (this.tempRule.useTags) {
-			// Tag matching fields
-			new Setting(container)
-				.setName('Tag')
-				.setDesc('The tag to match (with or without #)')
-				.addText(text =>
+		const actions = getRuleActions(this.tempRule);
+		this.tempRule.actions = actions;
+
+		actions.forEach((action, index) => {
+			const row = new Setting(container)
+				.setClass('smart-file-sorter-action')
+				.addDropdown(dropdown =>
+					dropdown
+						.addOptions(ACTION_TYPE_OPTIONS)
+						.setValue(action.type)
+						.onChange(value => {
+							actions[index] = createAction(value as RuleActionType);
+							this.renderActions(container);
+						})
+				);
+
+			this.renderActionFields(row, action);
+
+			row
+				.addExtraButton(btn =>
+					btn
+						.setIcon('up-chevron-glyph')
+						.setTooltip('Run earlier')
+						.setDisabled(index === 0)
+						.onClick(() => {
+							actions.splice(index - 1, 0, actions.splice(index, 1)[0]);
+							this.renderActions(container);
+						})
+				)
+				.addExtraButton(btn =>
+					btn
+						.setIcon('down-chevron-glyph')
+						.setTooltip('Run later')
+						.setDisabled(index === actions.length - 1)
+						.onClick(() => {
+							actions.splice(index + 1, 0, actions.splice(index, 1)[0]);
+							this.renderActions(container);
+						})
+				)
+				.addExtraButton(btn =>
+					btn
+						.setIcon('trash')
+						.setTooltip('Remove action')
+						.onClick(() => {
+							actions.splice(index, 1);
+							this.renderActions(container);
+						})
+				);
+		});
+
+		new Setting(container)
+			.addButton(btn =>
+				btn
+					.setButtonText('Add action')
+					.onClick(() => {
+						actions.push(createAction('setProperty'));
+						this.renderActions(container);
+					})
+			);
+	}
+
+	private renderActionFields(row: Setting, action: RuleAction): void {
+		switch (action.type) {
+			case 'copy':
+				row.addText(text =>
 					text
-						.setPlaceholder('soccer or #soccer')
-						.setValue(this.tempRule.tagValue || '')
+						.setPlaceholder('Templates/{{project}}')
+						.setValue(action.destinationFolder)
 						.onChange(value => {
-							this.tempRule.tagValue = value;
+							action.destinationFolder = value;
 						})
 				);
-		} else {
-			// Property matching fields
-			new Setting(container)
-				.setName('Property name')
-				.setDesc('The property to check (e.g., topic, category, status)')
-				.addText(text =>
+				break;
+			case 'addTag':
+			case 'removeTag':
+				row.addText(text =>
 					text
-						.setPlaceholder('topic')
-						.setValue(this.tempRule.propertyName)
+						.setPlaceholder('status/filed')
+						.setValue(action.tag)
 						.onChange(value => {
-							this.tempRule.propertyName = value;
+							action.tag = value;
 						})
 				);
-
-			new Setting(container)
-				.setName('Property value')
-				.setDesc('The value to match against')
-				.addText(text =>
+				break;
+			case 'setProperty':
+				row.addText(text =>
+					text
+						.setPlaceholder('Property name')
+						.setValue(action.propertyName)
+						.onChange(value => {
+							action.propertyName = value;
+						})
+				);
+				row.addText(text =>
 					text
-						.setPlaceholder('soccer')
-						.setValue(this.tempRule.propertyValue)
+						.setPlaceholder('Value')
+						.setValue(action.propertyValue)
 						.onChange(value => {
-							this.tempRule.propertyValue = value;
+							action.propertyValue = value;
 						})
 				);
+				break;
+			case 'removeProperty':
+				row.addText(text =>
+					text
+						.setPlaceholder('Property name')
+						.setValue(action.propertyName)
+						.onChange(value => {
+							action.propertyName = value;
+						})
+				);
+				break;
 		}
+	}
 
-		// Match type (common for both)
-		new Setting(container)
-			.setName('Match type')
-			.setDesc('How to compare the value')
+	private renderConditions(container: HTMLElement): void {
+		container.empty();
+		this.renderConditionGroup(container, this.tempRule.conditions, null);
+	}
+
+	private renderConditionGroup(
+		container: HTMLElement,
+		group: ConditionGroup,
+		parent: ConditionGroup | null
+	): void {
+		const groupEl = container.createDiv({ cls: 'smart-file-sorter-condition-group' });
+
+		const header = new Setting(groupEl)
+			.setName(parent ? 'Condition group' : 'Match files where')
 			.addDropdown(dropdown =>
 				dropdown
-					.addOption('equals', 'Equals')
-					.addOption('contains', 'Contains')
-					.addOption('startsWith', 'Starts with')
-					.addOption('endsWith', 'Ends with')
-					.addOption('regex', 'Regular expression')
-					.setValue(this.tempRule.matchType)
+					.addOption('and', 'All conditions match')
+					.addOption('or', 'Any condition matches')
+					.addOption('not', 'No condition matches')
+					.setValue(group.operator)
 					.onChange(value => {
-						this.tempRule.matchType = value as any;
+						group.operator = value as ConditionGroup['operator'];
 					})
 			);
 
-		new Setting(container)
-			.setName('Case sensitive')
-			.setDesc('Match is case sensitive')
-			.addToggle(toggle =>
+		if (parent) {
+			header.addExtraButton(btn =>
+				btn
+					.setIcon('trash')
+					.setTooltip('Remove group')
+					.onClick(() => {
+						parent.conditions.splice(parent.conditions.indexOf(group), 1);
+						this.refreshConditions();
+					})
+			);
+		}
+
+		group.conditions.forEach((condition, index) => {
+			if (condition.type === 'group') {
+				this.renderConditionGroup(groupEl, condition, group);
+			} else {
+				this.renderConditionRow(groupEl, condition, group, index);
+			}
+		});
+
+		new Setting(groupEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Add condition')
+					.onClick(() => {
+						group.conditions.push(createPropertyCondition());
+						this.refreshConditions();
+					})
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Add group')
+					.onClick(() => {
+						group.conditions.push(
+							createConditionGroup('or', [createPropertyCondition()])
+						);
+						this.refreshConditions();
+					})
+			);
+	}
+
+	private renderConditionRow(
+		container: HTMLElement,
+		condition: Exclude<RuleCondition, ConditionGroup>,
+		parent: ConditionGroup,
+		index: number
+	): void {
+		const row = new Setting(container)
+			.setClass('smart-file-sorter-condition')
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(CONDITION_KIND_OPTIONS)
+					.setValue(condition.type)
+					.onChange(value => {
+						parent.conditions[index] = this.createConditionOfKind(value, condition);
+						this.refreshConditions();
+					})
+			);
+
+		switch (condition.type) {
+			case 'property':
+				this.renderPropertyFields(row, condition);
+				break;
+			case 'tag':
+				this.renderTagFields(row, condition);
+				break;
+			case 'file':
+				this.renderFileFields(row, condition);
+				break;
+			case 'content':
+				this.renderContentFields(row, condition);
+				break;
+			case 'link':
+				this.renderLinkFields(row, condition);
+				break;
+		}
+
+		// Tag hierarchy matches are case-aware too
+		const hasTextMatch = condition.type === 'link'
+			? condition.relation === 'linkedFrom'
+			: condition.type === 'tag' || isTextMatchType(condition.matchType);
+
+		if (hasTextMatch) {
+			row.addToggle(toggle =>
 				toggle
-					.setValue(this.tempRule.caseSensitive)
+					.setValue(condition.caseSensitive)
+					.setTooltip('Case sensitive')
+					.onChange(value => {
+						condition.caseSensitive = value;
+					})
+			);
+		}
+
+		row.addExtraButton(btn =>
+			btn
+				.setIcon('trash')
+				.setTooltip('Remove condition')
+				.onClick(() => {
+					parent.conditions.splice(index, 1);
+					this.refreshConditions();
+				})
+		);
+	}
+
+	/**
+	 * Create a blank condition of another kind, keeping the text match options
+	 * of the condition it replaces where they still apply
+	 */
+	private createConditionOfKind(
+		kind: string,
+		previous: Exclude<RuleCondition, ConditionGroup>
+	): RuleCondition {
+		if (kind === 'file') {
+			return createFileCondition();
+		}
+		if (kind === 'link') {
+			return createLinkCondition();
+		}
+
+		const replacement = kind === 'tag' ? createTagCondition()
+			: kind === 'content' ? createContentCondition()
+			: createPropertyCondition();
+		if (isTextMatchType(previous.matchType)) {
+			replacement.matchType = previous.matchType;
+		}
+		replacement.caseSensitive = previous.caseSensitive;
+		return replacement;
+	}
+
+	private renderPropertyFields(row: Setting, condition: PropertyCondition): void {
+		row
+			.addText(text =>
+				text
+					.setPlaceholder('topic')
+					.setValue(condition.propertyName)
+					.onChange(value => {
+						condition.propertyName = value;
+					})
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(TEXT_MATCH_OPTIONS)
+					.addOptions(COMPARISON_MATCH_OPTIONS)
+					.setValue(condition.matchType)
+					.onChange(value => {
+						condition.matchType = value as MatchType;
+						// Value fields depend on the match type
+						this.refreshConditions();
+					})
+			);
+
+		if (!isComparisonMatchType(condition.matchType)) {
+			row.addDropdown(dropdown =>
+				dropdown
+					.addOptions(LIST_MODE_OPTIONS)
+					.setValue(condition.listMode ?? '')
+					.onChange(value => {
+						condition.listMode = value ? value as ListMatchMode : undefined;
+						this.refreshConditions();
+					})
+			);
+		}
+
+		if (!matchTypeNeedsValue(condition.matchType)) {
+			return;
+		}
+
+		const placeholder = isComparisonMatchType(condition.matchType)
+			? '3, 2024-01-31 or today'
+			: condition.listMode ? 'soccer, finance' : 'soccer';
+
+		row.addText(text =>
+			text
+				.setPlaceholder(placeholder)
+				.setValue(condition.propertyValue)
+				.onChange(value => {
+					condition.propertyValue = value;
+				})
+		);
+
+		if (condition.matchType === 'between') {
+			row.addText(text =>
+				text
+					.setPlaceholder('and')
+					.setValue(condition.propertyValueEnd || '')
+					.onChange(value => {
+						condition.propertyValueEnd = value;
+					})
+			);
+		}
+	}
+
+	private renderTagFields(row: Setting, condition: TagCondition): void {
+		row
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(TEXT_MATCH_OPTIONS)
+					.addOptions(TAG_HIERARCHY_OPTIONS)
+					.setValue(condition.matchType)
+					.onChange(value => {
+						condition.matchType = value as TagCondition['matchType'];
+						this.refreshConditions();
+					})
+			)
+			.addText(text =>
+				text
+					.setPlaceholder(condition.matchType === 'tagDepth' ? 'area (optional)' : 'soccer or #soccer')
+					.setValue(condition.tagValue)
+					.onChange(value => {
+						condition.tagValue = value;
+					})
+			);
+
+		if (condition.matchType === 'tagDepth') {
+			row.addText(text =>
+				text
+					.setPlaceholder('Depth')
+					.setValue(String(condition.depth ?? 1))
 					.onChange(value => {
-						this.tempRule.caseSensitive = value;
+						const depth = parseInt(value, 10);
+						condition.depth = isNaN(depth) ? undefined : depth;
 					})
 			);
+		}
+	}
+
+	private renderFileFields(row: Setting, condition: FileCondition): void {
+		const matchTypes = fileAttributeMatchTypes(condition.attribute);
+
+		row
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(FILE_ATTRIBUTE_OPTIONS)
+					.setValue(condition.attribute)
+					.onChange(value => {
+						condition.attribute = value as FileAttribute;
+						const allowed = fileAttributeMatchTypes(condition.attribute);
+						if (!allowed.includes(condition.matchType)) {
+							condition.matchType = allowed[0];
+						}
+						this.refreshConditions();
+					})
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(matchTypeOptions(matchTypes))
+					.setValue(condition.matchType)
+					.onChange(value => {
+						condition.matchType = value as MatchType;
+						this.refreshConditions();
+					})
+			);
+
+		const datePlaceholder = condition.matchType === 'withinLast' || condition.matchType === 'withinNext'
+			? '30 days'
+			: 'today';
+		const placeholders: Record<FileAttribute, string> = {
+			name: 'YYYY-MM-DD Meeting*',
+			folder: 'Inbox',
+			extension: 'md',
+			created: datePlaceholder,
+			modified: datePlaceholder,
+			size: '10 KB'
+		};
+
+		row.addText(text => {
+			text
+				.setPlaceholder(placeholders[condition.attribute])
+				.setValue(condition.value)
+				.onChange(value => {
+					condition.value = value;
+				});
+			if (condition.attribute === 'name' && condition.matchType === 'glob') {
+				text.inputEl.title = 'YYYY, MM and DD are reserved here: they match digits, e.g. YYYY-MM-DD Meeting*';
+			}
+		});
+
+		if (condition.matchType === 'between') {
+			row.addText(text =>
+				text
+					.setPlaceholder('and')
+					.setValue(condition.valueEnd || '')
+					.onChange(value => {
+						condition.valueEnd = value;
+					})
+			);
+		}
+	}
+
+	private renderContentFields(row: Setting, condition: ContentCondition): void {
+		const placeholders: Record<ContentTarget, string> = {
+			heading: 'Action Items',
+			link: 'Project Phoenix',
+			embed: 'report.pdf',
+			section: 'code',
+			body: 'ticket-\\d+'
+		};
+
+		row
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(CONTENT_TARGET_OPTIONS)
+					.setValue(condition.target)
+					.onChange(value => {
+						condition.target = value as ContentTarget;
+						this.refreshConditions();
+					})
+			)
+			.addDropdown(dropdown =>
+				dropdown
+					.addOptions(TEXT_MATCH_OPTIONS)
+					.setValue(condition.matchType)
+					.onChange(value => {
+						condition.matchType = value as TextMatchType;
+					})
+			)
+			.addText(text =>
+				text
+					.setPlaceholder(placeholders[condition.target])
+					.setValue(condition.value)
+					.onChange(value => {
+						condition.value = value;
+					})
+			);
+	}
+
+	private renderLinkFields(row: Setting, condition: LinkCondition): void {
+		const matchTypes = linkRelationMatchTypes(condition.relation);
+
+		row.addDropdown(dropdown =>
+			dropdown
+				.addOptions(LINK_RELATION_OPTIONS)
+				.setValue(condition.relation)
+				.onChange(value => {
+					condition.relation = value as LinkRelation;
+					const allowed = linkRelationMatchTypes(condition.relation);
+					condition.matchType = allowed.length > 0 ? allowed[0] : 'equals';
+					this.refreshConditions();
+				})
+		);
+
+		if (matchTypes.length > 0) {
+			row.addDropdown(dropdown =>
+				dropdown
+					.addOptions(matchTypeOptions(matchTypes))
+					.setValue(condition.matchType)
+					.onChange(value => {
+						condition.matchType = value as MatchType;
+						this.refreshConditions();
+					})
+			);
+		}
+
+		if (condition.relation === 'orphaned') {
+			return;
+		}
+
+		const placeholders: Record<LinkRelation, string> = {
+			linkedFrom: 'Project Phoenix',
+			linksToFolder: 'Projects',
+			backlinks: '3',
+			orphaned: ''
+		};
+
+		row.addText(text =>
+			text
+				.setPlaceholder(placeholders[condition.relation])
+				.setValue(condition.value)
+				.onChange(value => {
+					condition.value = value;
+				})
+		);
+
+		if (condition.matchType === 'between') {
+			row.addText(text =>
+				text
+					.setPlaceholder('and')
+					.setValue(condition.valueEnd || '')
+					.onChange(value => {
+						condition.valueEnd = value;
+					})
+			);
+		}
 	}
 
 	private renderSubfolderField(container: HTMLElement): void {
@@ -491,13 +1600,40 @@ class RuleEditorModal extends Modal {
 							this.tempRule.subfolderProperty = value;
 						})
 				);
+
+			const listItemSetting = new Setting(container)
+				.setName('List element')
+				.setDesc('Which value to use when the subfolder property is a list')
+				.addDropdown(dropdown =>
+					dropdown
+						.addOption('first', 'First')
+						.addOption('last', 'Last')
+						.addOption('index', 'Specific index')
+						.setValue(this.tempRule.subfolderListItem ?? 'first')
+						.onChange(value => {
+							this.tempRule.subfolderListItem = value as SortingRule['subfolderListItem'];
+							this.renderSubfolderField(container);
+						})
+				);
+
+			if (this.tempRule.subfolderListItem === 'index') {
+				listItemSetting.addText(text =>
+					text
+						.setPlaceholder('0')
+						.setValue(String(this.tempRule.subfolderListIndex ?? 0))
+						.onChange(value => {
+							const index = parseInt(value, 10);
+							this.tempRule.subfolderListIndex = isNaN(index) || index < 0 ? 0 : index;
+						})
+				);
+			}
 		}
 	}
 
-	private refreshMatchFields(contentEl: HTMLElement): void {
-		const container = contentEl.querySelector('.match-fields-container') as HTMLElement;
+	private refreshConditions(): void {
+		const container = this.contentEl.querySelector('.match-fields-container') as HTMLElement;
 		if (container) {
-			this.renderMatchFields(container);
+			this.renderConditions(container);
 		}
 	}
 
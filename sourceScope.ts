@@ -0,0 +1,44 @@
+import { TFile, normalizePath } from 'obsidian';
+import { SortingRule } from './types';
+import { matchesGlob } from './glob';
+
+// Folder paths are compared as typed, like plain exclusion paths
+const GLOB_OPTIONS = { caseSensitive: true };
+
+/**
+ * Check whether a folder lies inside a folder pattern. "/" is the vault root
+ * on its own. Other patterns are folder paths or globs such as "Projects/*"
+ * and also cover the subfolders of every folder they match.
+ */
+export function isFolderInPattern(folderPath: string, pattern: string): boolean {
+	const trimmed = pattern.trim();
+	if (trimmed === '/') {
+		return folderPath === '/' || folderPath === '';
+	}
+
+	const normalizedPattern = normalizePath(trimmed);
+	const segments = folderPath === '/' ? [] : folderPath.split('/');
+
+	// Try the folder itself and each of its parent folders
+	for (let i = segments.length; i > 0; i--) {
+		if (matchesGlob(segments.slice(0, i).join('/'), normalizedPattern, GLOB_OPTIONS)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Whether the file's folder is one the rule sorts from. Rules without
+ * source folders sort from anywhere; excluded folders win over included ones.
+ */
+export function isInSourceScope(rule: SortingRule, file: TFile): boolean {
+	const folderPath = file.parent?.path ?? '/';
+	const included = (rule.sourceFolders ?? []).filter(pattern => pattern.trim());
+	const excluded = (rule.excludedSourceFolders ?? []).filter(pattern => pattern.trim());
+
+	if (included.length > 0 && !included.some(pattern => isFolderInPattern(folderPath, pattern))) {
+		return false;
+	}
+	return !excluded.some(pattern => isFolderInPattern(folderPath, pattern));
+}
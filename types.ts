@@ -1,46 +1,396 @@
+export type TextMatchType = 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'glob';
+
+/**
+ * Match types that use the property's real type instead of its string form
+ */
+export type ComparisonMatchType =
+	| 'greaterThan'
+	| 'greaterOrEqual'
+	| 'lessThan'
+	| 'lessOrEqual'
+	| 'between'
+	| 'before'
+	| 'after'
+	| 'withinLast'
+	| 'withinNext'
+	| 'isTrue'
+	| 'isFalse'
+	| 'isEmpty'
+	| 'exists'
+	| 'missing';
+
+export type MatchType = TextMatchType | ComparisonMatchType;
+
+/**
+ * Match types that follow the tag hierarchy, where '/' separates levels
+ */
+export type TagHierarchyMatchType = 'tagOrDescendant' | 'tagChild' | 'tagDepth';
+
+/**
+ * How a property condition treats list-valued properties. Each list element
+ * is compared on its own, and the rule value may hold several comma-separated values.
+ */
+export type ListMatchMode = 'any' | 'all' | 'none' | 'exact';
+
+export type ConditionOperator = 'and' | 'or' | 'not';
+
+export interface PropertyCondition {
+	type: 'property';
+	propertyName: string;
+	propertyValue: string;
+	// Upper bound for 'between'
+	propertyValueEnd?: string;
+	matchType: MatchType;
+	caseSensitive: boolean;
+	listMode?: ListMatchMode;
+}
+
+export interface TagCondition {
+	type: 'tag';
+	tagValue: string;
+	matchType: TextMatchType | TagHierarchyMatchType;
+	caseSensitive: boolean;
+	// Tag depth for 'tagDepth', where a top-level tag has depth 1
+	depth?: number;
+}
+
+/**
+ * Attributes of the file itself, available even when a note has no properties
+ */
+export type FileAttribute = 'name' | 'folder' | 'extension' | 'created' | 'modified' | 'size';
+
+export interface FileCondition {
+	type: 'file';
+	attribute: FileAttribute;
+	value: string;
+	// Upper bound for 'between'
+	valueEnd?: string;
+	matchType: MatchType;
+	caseSensitive: boolean;
+}
+
+/**
+ * Parts of a note a content condition can inspect. 'body' reads the full note
+ * text and is only evaluated when the cheaper metadata checks pass.
+ */
+export type ContentTarget = 'heading' | 'link' | 'embed' | 'section' | 'body';
+
+export interface ContentCondition {
+	type: 'content';
+	target: ContentTarget;
+	value: string;
+	matchType: TextMatchType;
+	caseSensitive: boolean;
+}
+
+/**
+ * Relations in the link graph built from resolved links
+ */
+export type LinkRelation = 'linkedFrom' | 'linksToFolder' | 'backlinks' | 'orphaned';
+
+export interface LinkCondition {
+	type: 'link';
+	relation: LinkRelation;
+	// Note name or path for 'linkedFrom', folder for 'linksToFolder', count for 'backlinks'
+	value: string;
+	// Upper bound for 'between'
+	valueEnd?: string;
+	matchType: MatchType;
+	caseSensitive: boolean;
+}
+
+/**
+ * A group of conditions combined with a logical operator.
+ * 'and' requires all children to match, 'or' requires at least one,
+ * and 'not' requires that none of the children match.
+ */
+export interface ConditionGroup {
+	type: 'group';
+	operator: ConditionOperator;
+	conditions: RuleCondition[];
+}
+
+export type RuleCondition =
+	| PropertyCondition
+	| TagCondition
+	| FileCondition
+	| ContentCondition
+	| LinkCondition
+	| ConditionGroup;
+
+/**
+ * What to do when a file with the same name already exists at the destination.
+ * 'ask' queues the conflict for the resolution modal.
+ */
+export type ConflictStrategy = 'skip' | 'suffix' | 'timestamp' | 'replace' | 'ask';
+
+// How the rule for a file is chosen when several match: the first in list order,
+// the highest priority, or the one with the most conditions satisfied
+export type RuleEvaluationStrategy = 'first' | 'priority' | 'specific';
+
+/**
+ * Kinds of files a rule can sort. 'excalidraw' covers both `.excalidraw`
+ * files and `.excalidraw.md` drawings, which are not treated as 'markdown'.
+ */
+export type FileType = 'markdown' | 'canvas' | 'excalidraw' | 'pdf' | 'image' | 'audio' | 'video' | 'other';
+
+export type RuleActionType = 'move' | 'copy' | 'addTag' | 'removeTag' | 'setProperty' | 'removeProperty' | 'trash';
+
+/**
+ * Move to the rule's destination, using its destination settings
+ */
+export interface MoveAction {
+	type: 'move';
+}
+
+export interface CopyAction {
+	type: 'copy';
+	// Supports the same placeholders as the rule's destination folder
+	destinationFolder: string;
+}
+
+export interface TagAction {
+	type: 'addTag' | 'removeTag';
+	tag: string;
+}
+
+export interface SetPropertyAction {
+	type: 'setProperty';
+	propertyName: string;
+	propertyValue: string;
+}
+
+export interface RemovePropertyAction {
+	type: 'removeProperty';
+	propertyName: string;
+}
+
+/**
+ * Delete the file using Obsidian's "Deleted files" preference
+ */
+export interface TrashAction {
+	type: 'trash';
+}
+
+export type RuleAction = MoveAction | CopyAction | TagAction | SetPropertyAction | RemovePropertyAction | TrashAction;
+
 export interface SortingRule {
 	id: string;
 	name: string;
 	enabled: boolean;
 	destinationFolder: string;
+	// File types the rule applies to; markdown notes only when unset
+	fileTypes?: FileType[];
+	// Folders the rule sorts files from, as paths or globs ("/" is the vault root).
+	// Anywhere when unset; excluded folders take precedence.
+	sourceFolders?: string[];
+	excludedSourceFolders?: string[];
+	// 'hub' moves files next to the note found by the rule's link conditions,
+	// falling back to destinationFolder when no hub note is found
+	destinationType?: 'folder' | 'hub';
+	// Append the matched tag's nested path below the rule's tag, e.g. #area/health/fitness → Health/Fitness
+	mirrorTagPath?: boolean;
 	createSubfolders: boolean;
 	subfolderProperty?: string;
+	// Rename files when they move, e.g. "{{date:YYYY-MM-DD}} {{title}}" (without extension)
+	filenameTemplate?: string;
+	// Keep the previous file name in `aliases` after renaming
+	addOldNameAsAlias?: boolean;
+	// Higher runs first with the priority evaluation strategy; 0 when unset
+	priority?: number;
+	// After this rule runs, carry on to the next matching rule instead of stopping
+	continueEvaluating?: boolean;
+	// Overrides the global conflict strategy, also for names produced by filenameTemplate
+	conflictStrategy?: ConflictStrategy;
+	// Which element to use when the subfolder property is a list
+	subfolderListItem?: 'first' | 'last' | 'index';
+	subfolderListIndex?: number;
 
 	// Matching conditions
-	propertyName: string;
-	propertyValue: string;
-	matchType: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'regex';
-	caseSensitive: boolean;
+	conditions: ConditionGroup;
 
-	// Tags support
-	useTags: boolean;
+	// Run in order when the rule matches; a single move when unset
+	actions?: RuleAction[];
+
+	// Legacy single-condition fields, migrated into `conditions` on load
+	propertyName?: string;
+	propertyValue?: string;
+	matchType?: TextMatchType;
+	caseSensitive?: boolean;
+	useTags?: boolean;
 	tagValue?: string;
 }
 
 export interface PluginSettings {
 	rules: SortingRule[];
+	ruleEvaluation: RuleEvaluationStrategy;
 	enableAutoSort: boolean;
 	sortOnModify: boolean;
 	sortOnCreate: boolean;
+	sortOnRename: boolean;
+	// Files created in or moved into these folders are always auto-sorted
+	inboxFolders: string[];
+	// Seconds a file must go unchanged before it is auto-sorted
+	autoSortDelay: number;
+	autoSortWhenInactive: boolean;
+	skipUntitledNotes: boolean;
+	skipEmptyNotes: boolean;
+	// Property a note needs before it is auto-sorted, empty for none
+	autoSortRequiredProperty: string;
+	// A file auto-sorted more than loopMoveLimit times within loopWindow seconds is quarantined
+	loopMoveLimit: number;
+	loopWindow: number;
+	quarantinedFiles: QuarantinedFile[];
 	showNotifications: boolean;
+	// Folder paths or globs; "!" in front brings back an excluded path
 	excludedFolders: string[];
+	// Leave notes with `sort: false` or `pinned: true` where they are
+	honorSortOptOut: boolean;
 	verboseLogging: boolean;
+	conflictStrategy: ConflictStrategy;
+	moveAttachments: boolean;
+	// Show a preview of bulk sorts before anything is changed
+	previewBulkSorts: boolean;
+	// Undo a bulk sort's moves once it reaches batchErrorThreshold errors
+	atomicBatches: boolean;
+	batchErrorThreshold: number;
+
+	// Moves that can be undone, oldest first
+	moveJournal: MoveOperation[];
+	maxJournalEntries: number;
+
+	// Folder names built from note metadata
+	pathReplacementChar: string;
+	maxFolderNameLength: number;
+	reservedNameHandling: 'suffix' | 'reject';
 }
 
 export const DEFAULT_SETTINGS: PluginSettings = {
 	rules: [],
+	ruleEvaluation: 'first',
 	enableAutoSort: false,
 	sortOnModify: true,
 	sortOnCreate: true,
+	sortOnRename: false,
+	inboxFolders: [],
+	autoSortDelay: 2,
+	autoSortWhenInactive: false,
+	skipUntitledNotes: true,
+	skipEmptyNotes: true,
+	autoSortRequiredProperty: '',
+	loopMoveLimit: 3,
+	loopWindow: 60,
+	quarantinedFiles: [],
 	showNotifications: true,
 	excludedFolders: [],
-	verboseLogging: false
+	honorSortOptOut: true,
+	verboseLogging: false,
+	conflictStrategy: 'skip',
+	moveAttachments: false,
+	previewBulkSorts: true,
+	atomicBatches: false,
+	batchErrorThreshold: 1,
+	moveJournal: [],
+	maxJournalEntries: 1000,
+	pathReplacementChar: '_',
+	maxFolderNameLength: 100,
+	reservedNameHandling: 'suffix'
 };
 
-export interface MoveOperation {
+/**
+ * Outcome of moving a single file. 'rejected' means the resolved
+ * destination was unsafe, e.g. outside the rule's folder. 'conflict' means
+ * a same-named file blocked the move and it was skipped or queued for review.
+ */
+export type MoveStatus = 'moved' | 'skipped' | 'rejected' | 'conflict';
+
+/**
+ * Outcome of a single rule action. 'skipped' means there was nothing to do,
+ * e.g. the tag was already present. A failed, rejected or conflicting action
+ * stops the rest of the rule's actions.
+ */
+export type ActionStatus = 'applied' | 'skipped' | 'rejected' | 'conflict' | 'failed';
+
+export interface ActionOutcome {
+	action: RuleAction;
+	status: ActionStatus;
+	// Files moved by a move action, including attachments. A failed action
+	// keeps the moves it made before failing.
+	moves?: FileMove[];
+	// Why a failed action failed
+	error?: string;
+}
+
+export interface SortFailure {
+	path: string;
+	error: string;
+}
+
+export interface SortResult {
+	// File counts
+	moved: number;
+	skipped: number;
+	errors: number;
+	rejected: number;
+	conflicts: number;
+	// Number of times each action type was applied
+	actions: Record<RuleActionType, number>;
+	// Moves still in effect after the sort
+	moves: FileMove[];
+	failures: SortFailure[];
+	// Moves undone because the batch crossed the error threshold
+	rolledBack: number;
+	// Stopped before every file was sorted
+	cancelled: boolean;
+}
+
+export type SortPhase = 'matching' | 'sorting';
+
+/**
+ * Progress of a bulk sort. Matching works out each file's rule, sorting runs the rules.
+ */
+export interface SortProgress {
+	phase: SortPhase;
+	current: number;
+	total: number;
+	// Counts so far
+	result: SortResult;
+}
+
+export interface FileMove {
 	file: string;
 	from: string;
 	to: string;
 	rule: string;
 	timestamp: number;
+	// Moved along with the note recorded just before it
+	attachment?: boolean;
+	// Where the file this move replaced was put, so undo can restore it
+	replaced?: string;
+}
+
+/**
+ * What started a batch of moves
+ */
+export type BatchKind = 'auto' | 'file' | 'folder' | 'vault';
+
+/**
+ * A move in the journal. Moves made by one command or auto-sort share a batch id.
+ */
+export interface MoveOperation extends FileMove {
+	batchId: string;
+	batchKind: BatchKind;
+	// When the move was undone. Undone moves stay in the journal as an audit trail.
+	undoneAt?: number;
+}
+
+/**
+ * A file auto-sort kept moving back and forth, left alone until the user releases it
+ */
+export interface QuarantinedFile {
+	path: string;
+	// Rules and folders involved in the loop
+	rules: string[];
+	folders: string[];
+	timestamp: number;
 }
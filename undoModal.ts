@@ -0,0 +1,101 @@
+import { App, FuzzySuggestModal, Modal, Notice, Setting } from 'obsidian';
+import { MoveBatch } from './moveJournal';
+import { parseDateOperand } from './comparisons';
+import { BatchKind } from './types';
+
+const BATCH_KIND_LABELS: Record<BatchKind, string> = {
+	auto: 'Auto-sort',
+	file: 'Sort current file',
+	folder: 'Folder sort',
+	vault: 'Vault sort'
+};
+
+export function describeBatch(batch: MoveBatch): string {
+	const count = batch.moves.filter(move => !move.attachment).length;
+	return `${BATCH_KIND_LABELS[batch.kind]} · ${new Date(batch.timestamp).toLocaleString()} · ` +
+		`${count} ${count === 1 ? 'file' : 'files'}`;
+}
+
+/**
+ * Pick a batch of moves to undo, newest first
+ */
+export class BatchSuggestModal extends FuzzySuggestModal<MoveBatch> {
+	private batches: MoveBatch[];
+	private onChoose: (batch: MoveBatch) => void;
+
+	constructor(app: App, batches: MoveBatch[], onChoose: (batch: MoveBatch) => void) {
+		super(app);
+		this.batches = batches;
+		this.onChoose = onChoose;
+		this.setPlaceholder('Choose a batch of moves to undo');
+	}
+
+	getItems(): MoveBatch[] {
+		return this.batches;
+	}
+
+	getItemText(batch: MoveBatch): string {
+		return describeBatch(batch);
+	}
+
+	onChooseItem(batch: MoveBatch): void {
+		this.onChoose(batch);
+	}
+}
+
+/**
+ * Ask for the point in time from which all moves are undone
+ */
+export class UndoSinceModal extends Modal {
+	private onSubmit: (timestamp: number) => void;
+	private value = 'today';
+
+	constructor(app: App, onSubmit: (timestamp: number) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', { text: 'Undo moves since' });
+
+		new Setting(contentEl)
+			.setName('Since')
+			.setDesc('A date and time such as 2024-03-18 14:30, or today, yesterday or -2d')
+			.addText(text =>
+				text
+					.setValue(this.value)
+					.onChange(value => {
+						this.value = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.addButton(btn =>
+				btn
+					.setButtonText('Undo moves')
+					.setWarning()
+					.onClick(() => {
+						const since = parseDateOperand(this.value);
+						if (!since) {
+							new Notice(`Cannot read "${this.value}" as a date`);
+							return;
+						}
+						this.close();
+						this.onSubmit(since.valueOf());
+					})
+			)
+			.addButton(btn =>
+				btn
+					.setButtonText('Cancel')
+					.onClick(() => this.close())
+			);
+	}
+
+	onClose(): void {
+		const { contentEl } = this;
+		contentEl.empty();
+	}
+}